@@ -0,0 +1,715 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseCron } from './utils/cron';
+import { isIpListEntry } from './utils/ip';
+import type { CacheBackend } from './services/cacheStore';
+import type { LogFormat, LogLevel } from './services/logger';
+import type { ContentRouteConfig } from './services/contentRoutes';
+import type { RateLimitClient } from './services/rateLimits';
+import type { RateLimitStoreBackend } from './services/rateLimitStore';
+import type { UpstreamDefinition } from './services/upstreams';
+import type { UrlRewriteField, UrlRewriteRule } from './services/urlTransform';
+import { DEFAULT_CACHE_MAX_BYTES, DEFAULT_CACHE_MAX_ENTRIES } from './services/cacheStore';
+import { DEFAULT_CONTENT_ROUTES, ROUTE_SEGMENT_PATTERN } from './services/contentRoutes';
+import { DEFAULT_FALLBACK_LOCALE } from './services/flatFormat';
+import { LOG_FORMATS, LOG_LEVELS } from './services/logger';
+import { DEFAULT_ENTRIES_ALLOWED_PARAMS, DEFAULT_MAX_INCLUDE, DEFAULT_MAX_LIMIT, DEFAULT_MAX_SKIP } from './services/queryPolicy';
+import { DEFAULT_REDIS_KEY_PREFIX, toNamespace } from './services/redisCacheStore';
+import { DEFAULT_RATE_LIMIT_REDIS_PREFIX } from './services/rateLimitStore';
+import {
+  DEFAULT_BREAKER_COOLDOWN,
+  DEFAULT_BREAKER_THRESHOLD,
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_MAX_RETRY_WAIT_MS,
+  DEFAULT_RETRY_BASE_MS
+} from './services/resilience';
+import { DEFAULT_FRESH_TTL, DEFAULT_STALE_TTL } from './services/staleCache';
+import { DEFAULT_SYNC_INTERVAL } from './services/syncMirror';
+import { DEFAULT_ENVIRONMENT } from './services/upstreams';
+import { DEFAULT_URL_REWRITE_RULES } from './services/urlTransform';
+import { DEFAULT_WARMUP_CONCURRENCY } from './services/cacheWarmup';
+import { DEFAULT_IMAGE_CACHE_CONTROL, DEFAULT_IMAGE_CACHE_MAX_BYTES, DEFAULT_IMAGES_UPSTREAM } from './routes/images';
+
+export const DEFAULT_PORT = 3000;
+export const DEFAULT_ALLOWED_ORIGINS = ['http://localhost:3000', 'http://localhost:3001'];
+export const DEFAULT_RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+export const DEFAULT_RATE_LIMIT_MAX_REQUESTS = 100;
+export const DEFAULT_RATE_LIMIT_CLIENT_MAX_REQUESTS = 5000;
+export const DEFAULT_RATE_LIMIT_EXPENSIVE_MAX_REQUESTS = 20;
+export const DEFAULT_RATE_LIMIT_CLIENT_EXPENSIVE_MAX_REQUESTS = 500;
+export const DEFAULT_RATE_LIMIT_EXPENSIVE_LIMIT = 50;
+export const DEFAULT_HEALTH_PROBE_TTL = 30; // seconds
+export const DEFAULT_HEALTH_PROBE_TIMEOUT_MS = 5000;
+export const DEFAULT_HEALTH_RECENT_ERRORS = 20;
+
+// Value of Express' `trust proxy`: true, a number of proxy hops, or trusted addresses
+export type TrustProxySetting = boolean | number | string[];
+
+// Effective configuration of the proxy, read once at startup
+export interface AppConfig {
+  nodeEnv: string;
+  port: number;
+  // TRUST_PROXY, e.g. 1 behind the Heroku router, so that req.ip is the client's address
+  trustProxy: TrustProxySetting;
+  logging: {
+    level: LogLevel;
+    // json by default in production
+    format: LogFormat;
+  };
+  contentful: {
+    spaceId: string;
+    environment: string;
+    accessToken: string;
+    previewAccessToken: string | null;
+    // Fallback locale of ?format=flat
+    defaultLocale: string;
+    // Locales of the space, the only values accepted for selectLocale and fallbackLocale
+    locales: string[];
+    // Additional space/environment pairs
+    upstreams: UpstreamDefinition[];
+    webhookSecret: string | null;
+  };
+  preview: {
+    secret: string | null;
+  };
+  admin: {
+    apiKey: string | null;
+    auditLog: string | null;
+  };
+  // Access to /metrics; the endpoint is disabled when neither is set
+  metrics: {
+    token: string | null;
+    allowedIps: string[];
+  };
+  cors: {
+    allowedOrigins: string[];
+  };
+  rateLimit: {
+    windowMs: number;
+    // Anonymous requests, per IP and window
+    maxRequests: number;
+    // Requests with an API key, per key and window
+    clientMaxRequests: number;
+    // Separate budgets for expensive requests (large `limit` queries, sync)
+    expensiveMaxRequests: number;
+    clientExpensiveMaxRequests: number;
+    // `limit` above which a query counts as expensive
+    expensiveLimit: number;
+    clients: RateLimitClient[];
+    store: RateLimitStoreBackend;
+    // Namespace of the counters in Redis, separate from the cache's REDIS_KEY_PREFIX
+    redisPrefix: string;
+  };
+  health: {
+    // Seconds a readiness probe result is reused
+    probeTtl: number;
+    probeTimeoutMs: number;
+    // Failed upstream calls listed by /api/health/detailed
+    recentErrors: number;
+  };
+  cache: {
+    backend: CacheBackend;
+    freshTtl: number;
+    staleTtl: number;
+    maxEntries: number;
+    maxBytes: number;
+    redisUrl: string | null;
+    redisKeyPrefix: string;
+    // Cache-Control overrides by resource, from CACHE_CONTROL_<RESOURCE>
+    cacheControl: Record<string, string>;
+  };
+  images: {
+    upstreamBase: string;
+    cacheDir: string;
+    cacheMaxBytes: number;
+    cacheControl: string;
+  };
+  upstream: {
+    maxRetries: number;
+    retryBaseMs: number;
+    maxRetryWaitMs: number;
+    breakerThreshold: number;
+    breakerCooldown: number; // seconds
+  };
+  warmup: {
+    manifest: string | null;
+    schedule: string | null;
+    concurrency: number;
+  };
+  syncMirror: {
+    enabled: boolean;
+    interval: number; // seconds
+    directory: string;
+  };
+  graphql: {
+    persistedQueries: string | null;
+    allowedOperations: string[];
+  };
+  queryPolicy: {
+    entriesAllowedParams: string[];
+    maxLimit: number;
+    maxSkip: number;
+    maxInclude: number;
+  };
+  contentRoutes: ContentRouteConfig[];
+  urlRewriteRules: UrlRewriteRule[];
+  richTextEntryTemplates: Record<string, string>;
+}
+
+// Thrown when the configuration can't be used; lists every problem, not just the first
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+  }
+}
+
+const CACHE_CONTROL_PATTERN = /^CACHE_CONTROL_([A-Z_]+)$/;
+const URL_REWRITE_FIELDS: UrlRewriteField[] = ['file', 'hyperlink'];
+
+const describe = (value: unknown): string => JSON.stringify(value) ?? String(value);
+
+const isObject = (value: unknown): value is Record<string, any> => {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+};
+
+const isStringArray = (value: unknown): value is string[] => {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+};
+
+interface NumberRule {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+// Typed reads from the merged settings. Problems are collected so that one run reports all of them.
+const createReader = (source: Record<string, unknown>) => {
+  const problems: string[] = [];
+  const known = new Set<string>();
+
+  const raw = (name: string): unknown => {
+    known.add(name);
+    const value = source[name];
+    return value === undefined || value === null || value === '' ? undefined : value;
+  };
+
+  const problem = (name: string, message: string): void => {
+    problems.push(`${name}: ${message}`);
+  };
+
+  const optionalString = (name: string): string | null => {
+    const value = raw(name);
+    if (value === undefined) {
+      return null;
+    }
+    if (typeof value !== 'string') {
+      problem(name, `expected a string, got ${describe(value)}`);
+      return null;
+    }
+    return value.trim();
+  };
+
+  const string = (name: string, fallback: string): string => optionalString(name) ?? fallback;
+
+  const required = (name: string): string => {
+    if (raw(name) === undefined) {
+      problem(name, 'is required');
+      return '';
+    }
+    return optionalString(name) ?? '';
+  };
+
+  const number = (name: string, fallback: number, rule: NumberRule = {}): number => {
+    const value = raw(name);
+    if (value === undefined) {
+      return fallback;
+    }
+    const parsed = typeof value === 'string' ? Number(value.trim()) : value;
+    const valid = typeof parsed === 'number' && Number.isFinite(parsed)
+      && (!rule.integer || Number.isInteger(parsed))
+      && (rule.min === undefined || parsed >= rule.min)
+      && (rule.max === undefined || parsed <= rule.max);
+    if (!valid) {
+      const bounds = [
+        rule.min !== undefined ? `>= ${rule.min}` : '',
+        rule.max !== undefined ? `<= ${rule.max}` : ''
+      ].filter(Boolean).join(' and ');
+      problem(name, `expected ${rule.integer ? 'an integer' : 'a number'}${bounds ? ` ${bounds}` : ''}, got ${describe(value)}`);
+      return fallback;
+    }
+    return parsed as number;
+  };
+
+  const boolean = (name: string, fallback: boolean): boolean => {
+    const value = raw(name);
+    if (value === undefined) {
+      return fallback;
+    }
+    if (value === true || value === 'true') {
+      return true;
+    }
+    if (value === false || value === 'false') {
+      return false;
+    }
+    problem(name, `expected true or false, got ${describe(value)}`);
+    return fallback;
+  };
+
+  const oneOf = <T extends string>(name: string, values: T[], fallback: T): T => {
+    const value = raw(name);
+    if (value === undefined) {
+      return fallback;
+    }
+    const normalized = typeof value === 'string' ? value.trim().toLowerCase() : value;
+    if (!values.includes(normalized as T)) {
+      problem(name, `expected one of ${values.join(', ')}, got ${describe(value)}`);
+      return fallback;
+    }
+    return normalized as T;
+  };
+
+  // Comma-separated in env vars, a comma-separated string or an array in the config file
+  const list = (name: string, fallback: string[]): string[] => {
+    const value = raw(name);
+    if (value === undefined) {
+      return fallback;
+    }
+    if (typeof value === 'string') {
+      return value.split(',').map(item => item.trim()).filter(Boolean);
+    }
+    if (isStringArray(value)) {
+      return value.map(item => item.trim()).filter(Boolean);
+    }
+    problem(name, `expected a comma-separated list, got ${describe(value)}`);
+    return fallback;
+  };
+
+  // JSON text in env vars, plain JSON values in the config file
+  const json = (name: string): unknown => {
+    const value = raw(name);
+    if (typeof value !== 'string') {
+      return value;
+    }
+    try {
+      return JSON.parse(value);
+    } catch (error: any) {
+      problem(name, `is not valid JSON (${error.message})`);
+      return undefined;
+    }
+  };
+
+  const readableFile = (name: string): string | null => {
+    const file = optionalString(name);
+    if (file !== null) {
+      try {
+        fs.accessSync(file, fs.constants.R_OK);
+      } catch {
+        problem(name, `file "${file}" does not exist or is not readable`);
+      }
+    }
+    return file;
+  };
+
+  return { source, problems, known, problem, optionalString, string, required, number, boolean, oneOf, list, json, readableFile };
+};
+
+type ConfigReader = ReturnType<typeof createReader>;
+
+const readUrl = (reader: ConfigReader, name: string, protocols: string[], fallback: string | null): string | null => {
+  const value = reader.optionalString(name);
+  if (value === null) {
+    return fallback;
+  }
+  try {
+    const url = new URL(value);
+    if (!protocols.includes(url.protocol)) {
+      throw new Error();
+    }
+  } catch {
+    reader.problem(name, `expected a ${protocols.map(protocol => protocol.replace(':', '')).join('/')} URL, got ${describe(value)}`);
+  }
+  return value;
+};
+
+const readAllowedOrigins = (reader: ConfigReader): string[] => {
+  const origins = reader.list('ALLOWED_ORIGINS', DEFAULT_ALLOWED_ORIGINS);
+  for (const origin of origins) {
+    let valid = false;
+    try {
+      // Browsers send the bare origin, so a path or trailing slash would never match
+      valid = new URL(origin).origin === origin;
+    } catch {
+      valid = false;
+    }
+    if (!valid) {
+      reader.problem('ALLOWED_ORIGINS', `"${origin}" is not an origin like https://example.com`);
+    }
+  }
+  return origins;
+};
+
+const readIpList = (reader: ConfigReader, name: string): string[] => {
+  const entries = reader.list(name, []);
+  for (const entry of entries.filter(candidate => !isIpListEntry(candidate))) {
+    reader.problem(name, `"${entry}" is not an IP address or IPv4 CIDR range`);
+  }
+  return entries;
+};
+
+const TRUST_PROXY_NAMES = ['loopback', 'linklocal', 'uniquelocal'];
+
+// true/false, a hop count or a list of addresses; the config file may use JSON booleans and numbers
+const readTrustProxy = (reader: ConfigReader): TrustProxySetting => {
+  const source = reader.source.TRUST_PROXY;
+  if (typeof source === 'boolean') {
+    return reader.boolean('TRUST_PROXY', false);
+  }
+  if (typeof source === 'number') {
+    return reader.number('TRUST_PROXY', 0, { integer: true, min: 0 });
+  }
+  const value = reader.optionalString('TRUST_PROXY');
+  if (value === null || value === 'false') {
+    return false;
+  }
+  if (value === 'true') {
+    return true;
+  }
+  if (/^\d+$/.test(value)) {
+    return Number(value);
+  }
+  const entries = reader.list('TRUST_PROXY', []);
+  for (const entry of entries.filter(candidate => !isIpListEntry(candidate) && !TRUST_PROXY_NAMES.includes(candidate))) {
+    reader.problem('TRUST_PROXY', `"${entry}" is not true, false, a number of hops, an IP address, an IPv4 CIDR range or one of ${TRUST_PROXY_NAMES.join(', ')}`);
+  }
+  return entries;
+};
+
+const readRateLimitClients = (reader: ConfigReader): RateLimitClient[] => {
+  const value = reader.json('RATE_LIMIT_API_KEYS');
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    reader.problem('RATE_LIMIT_API_KEYS', 'expected a JSON array');
+    return [];
+  }
+
+  const isLimit = (limit: unknown) => limit === undefined || (Number.isInteger(limit) && (limit as number) >= 1);
+  const names = new Set<string>();
+  return value.filter((client: any, index: number) => {
+    const name = `RATE_LIMIT_API_KEYS[${index}]`;
+    if (!isObject(client) || typeof client.name !== 'string' || typeof client.apiKey !== 'string' || !client.name || !client.apiKey) {
+      reader.problem(name, 'name and apiKey are required');
+      return false;
+    }
+    const problems = [
+      names.has(client.name) && `name "${client.name}" is used more than once`,
+      !isLimit(client.maxRequests) && 'maxRequests must be a positive integer',
+      !isLimit(client.expensiveMaxRequests) && 'expensiveMaxRequests must be a positive integer'
+    ].filter((message): message is string => !!message);
+    names.add(client.name);
+    problems.forEach(message => reader.problem(name, message));
+    return problems.length === 0;
+  });
+};
+
+const readUpstreams = (reader: ConfigReader): UpstreamDefinition[] => {
+  const value = reader.json('CONTENTFUL_UPSTREAMS');
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    reader.problem('CONTENTFUL_UPSTREAMS', 'expected a JSON array');
+    return [];
+  }
+
+  return value.filter((item: any, index: number) => {
+    const valid = isObject(item)
+      && typeof item.spaceId === 'string' && typeof item.accessToken === 'string'
+      && ['undefined', 'string'].includes(typeof item.environment)
+      && ['undefined', 'string'].includes(typeof item.previewAccessToken);
+    if (!valid) {
+      reader.problem(`CONTENTFUL_UPSTREAMS[${index}]`, 'expected { spaceId, environment?, accessToken, previewAccessToken? } strings');
+    }
+    return valid;
+  });
+};
+
+const readContentRoutes = (reader: ConfigReader): ContentRouteConfig[] => {
+  const value = reader.json('CONTENT_ROUTES');
+  if (value === undefined) {
+    return DEFAULT_CONTENT_ROUTES;
+  }
+  if (!Array.isArray(value)) {
+    reader.problem('CONTENT_ROUTES', 'expected a JSON array');
+    return DEFAULT_CONTENT_ROUTES;
+  }
+
+  return value.filter((route: any, index: number) => {
+    const name = `CONTENT_ROUTES[${index}]`;
+    if (!isObject(route) || typeof route.contentType !== 'string') {
+      reader.problem(name, 'contentType is required');
+      return false;
+    }
+    const problems = [
+      !ROUTE_SEGMENT_PATTERN.test(route.route ?? route.contentType) && 'route must only contain letters, digits, "-" and "_"',
+      route.slugField !== undefined && typeof route.slugField !== 'string' && 'slugField must be a string',
+      route.select !== undefined && !isStringArray(route.select) && 'select must be an array of field paths',
+      route.include !== undefined && !(Number.isInteger(route.include) && route.include >= 0) && 'include must be a non-negative integer',
+      route.locale !== undefined && typeof route.locale !== 'string' && 'locale must be a string'
+    ].filter((message): message is string => !!message);
+    problems.forEach(message => reader.problem(name, message));
+    return problems.length === 0;
+  });
+};
+
+const readUrlRewriteRules = (reader: ConfigReader): UrlRewriteRule[] => {
+  const value = reader.json('URL_REWRITE_RULES');
+  if (value === undefined) {
+    return DEFAULT_URL_REWRITE_RULES;
+  }
+  if (!Array.isArray(value)) {
+    reader.problem('URL_REWRITE_RULES', 'expected a JSON array');
+    return DEFAULT_URL_REWRITE_RULES;
+  }
+
+  return value.filter((rule: any, index: number) => {
+    const name = `URL_REWRITE_RULES[${index}]`;
+    if (!isObject(rule) || typeof rule.from !== 'string' || typeof rule.to !== 'string') {
+      reader.problem(name, 'from and to hosts are required');
+      return false;
+    }
+    const problems = [
+      rule.pathPrefix !== undefined && typeof rule.pathPrefix !== 'string' && 'pathPrefix must be a string',
+      rule.fields !== undefined && !(isStringArray(rule.fields) && rule.fields.every(field => URL_REWRITE_FIELDS.includes(field as UrlRewriteField)))
+        && `fields must only contain ${URL_REWRITE_FIELDS.join(', ')}`,
+      rule.enabled !== undefined && typeof rule.enabled !== 'boolean' && 'enabled must be true or false',
+      rule.environments !== undefined && !isStringArray(rule.environments) && 'environments must be an array of NODE_ENV values'
+    ].filter((message): message is string => !!message);
+    problems.forEach(message => reader.problem(name, message));
+    return problems.length === 0;
+  });
+};
+
+const readEntryTemplates = (reader: ConfigReader): Record<string, string> => {
+  const value = reader.json('RICH_TEXT_ENTRY_TEMPLATES');
+  if (value === undefined) {
+    return {};
+  }
+  if (!isObject(value) || !Object.values(value).every(template => typeof template === 'string')) {
+    reader.problem('RICH_TEXT_ENTRY_TEMPLATES', 'expected a JSON object of { contentType: template } strings');
+    return {};
+  }
+  return value;
+};
+
+// CACHE_CONTROL_ENTRIES, CACHE_CONTROL_CONTENT_TYPES, ... keyed by resource (entries, content_types)
+const readCacheControl = (reader: ConfigReader): Record<string, string> => {
+  const cacheControl: Record<string, string> = {};
+  for (const name of Object.keys(reader.source)) {
+    const match = CACHE_CONTROL_PATTERN.exec(name);
+    const value = match ? reader.optionalString(name) : null;
+    if (match && value) {
+      cacheControl[match[1].toLowerCase()] = value;
+    }
+  }
+  return cacheControl;
+};
+
+const readCronSchedule = (reader: ConfigReader, name: string): string | null => {
+  const schedule = reader.optionalString(name);
+  if (schedule !== null) {
+    try {
+      parseCron(schedule);
+    } catch (error: any) {
+      reader.problem(name, error.message);
+    }
+  }
+  return schedule;
+};
+
+// Settings from CONFIG_FILE, a JSON object keyed like the environment variables
+const readConfigFile = (file: string, problems: string[]): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (!isObject(parsed)) {
+      throw new Error('expected a JSON object of settings');
+    }
+    return parsed;
+  } catch (error: any) {
+    problems.push(`CONFIG_FILE: can't read "${file}" (${error.message})`);
+    return {};
+  }
+};
+
+// Read and validate the whole configuration. Environment variables take precedence over
+// CONFIG_FILE; a ConfigError lists everything that is missing or invalid.
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): AppConfig => {
+  const fileProblems: string[] = [];
+  const fileSettings = env.CONFIG_FILE ? readConfigFile(env.CONFIG_FILE, fileProblems) : {};
+  const envSettings = Object.fromEntries(Object.entries(env).filter(([, value]) => value !== undefined && value !== ''));
+  const reader = createReader({ ...fileSettings, ...envSettings });
+  reader.problems.push(...fileProblems);
+
+  const nodeEnv = reader.string('NODE_ENV', 'development');
+  const defaultLocale = reader.string('CONTENTFUL_DEFAULT_LOCALE', DEFAULT_FALLBACK_LOCALE);
+  const config: AppConfig = {
+    nodeEnv,
+    port: reader.number('PORT', DEFAULT_PORT, { integer: true, min: 0, max: 65535 }),
+    trustProxy: readTrustProxy(reader),
+    logging: {
+      level: reader.oneOf<LogLevel>('LOG_LEVEL', LOG_LEVELS, 'info'),
+      format: reader.oneOf<LogFormat>('LOG_FORMAT', LOG_FORMATS, nodeEnv === 'production' ? 'json' : 'pretty')
+    },
+    contentful: {
+      spaceId: reader.required('CONTENTFUL_SPACE_ID'),
+      environment: reader.string('CONTENTFUL_ENVIRONMENT', DEFAULT_ENVIRONMENT),
+      accessToken: reader.required('CONTENTFUL_ACCESS_TOKEN'),
+      previewAccessToken: reader.optionalString('CONTENTFUL_PREVIEW_ACCESS_TOKEN'),
+      defaultLocale,
+      locales: reader.list('CONTENTFUL_LOCALES', [defaultLocale]),
+      upstreams: readUpstreams(reader),
+      webhookSecret: reader.optionalString('CONTENTFUL_WEBHOOK_SECRET')
+    },
+    preview: {
+      secret: reader.optionalString('PREVIEW_SECRET')
+    },
+    admin: {
+      apiKey: reader.optionalString('ADMIN_API_KEY'),
+      auditLog: reader.optionalString('ADMIN_AUDIT_LOG')
+    },
+    metrics: {
+      token: reader.optionalString('METRICS_TOKEN'),
+      allowedIps: readIpList(reader, 'METRICS_ALLOWED_IPS')
+    },
+    cors: {
+      allowedOrigins: readAllowedOrigins(reader)
+    },
+    rateLimit: {
+      windowMs: reader.number('RATE_LIMIT_WINDOW_MS', DEFAULT_RATE_LIMIT_WINDOW_MS, { integer: true, min: 1000 }),
+      maxRequests: reader.number('RATE_LIMIT_MAX_REQUESTS', DEFAULT_RATE_LIMIT_MAX_REQUESTS, { integer: true, min: 1 }),
+      clientMaxRequests: reader.number('RATE_LIMIT_CLIENT_MAX_REQUESTS', DEFAULT_RATE_LIMIT_CLIENT_MAX_REQUESTS, { integer: true, min: 1 }),
+      expensiveMaxRequests: reader.number('RATE_LIMIT_EXPENSIVE_MAX_REQUESTS', DEFAULT_RATE_LIMIT_EXPENSIVE_MAX_REQUESTS, { integer: true, min: 1 }),
+      clientExpensiveMaxRequests: reader.number(
+        'RATE_LIMIT_CLIENT_EXPENSIVE_MAX_REQUESTS',
+        DEFAULT_RATE_LIMIT_CLIENT_EXPENSIVE_MAX_REQUESTS,
+        { integer: true, min: 1 }
+      ),
+      expensiveLimit: reader.number('RATE_LIMIT_EXPENSIVE_LIMIT', DEFAULT_RATE_LIMIT_EXPENSIVE_LIMIT, { integer: true, min: 0 }),
+      clients: readRateLimitClients(reader),
+      store: reader.oneOf<RateLimitStoreBackend>('RATE_LIMIT_STORE', ['memory', 'redis'], 'memory'),
+      redisPrefix: reader.string('RATE_LIMIT_REDIS_PREFIX', DEFAULT_RATE_LIMIT_REDIS_PREFIX)
+    },
+    health: {
+      probeTtl: reader.number('HEALTH_PROBE_TTL', DEFAULT_HEALTH_PROBE_TTL, { min: 0 }),
+      probeTimeoutMs: reader.number('HEALTH_PROBE_TIMEOUT_MS', DEFAULT_HEALTH_PROBE_TIMEOUT_MS, { integer: true, min: 1 }),
+      recentErrors: reader.number('HEALTH_RECENT_ERRORS', DEFAULT_HEALTH_RECENT_ERRORS, { integer: true, min: 0 })
+    },
+    cache: {
+      backend: reader.oneOf<CacheBackend>('CACHE_BACKEND', ['memory', 'redis'], 'memory'),
+      freshTtl: reader.number('CACHE_FRESH_TTL', DEFAULT_FRESH_TTL, { min: 1 }),
+      staleTtl: reader.number('CACHE_STALE_TTL', DEFAULT_STALE_TTL, { min: 1 }),
+      maxEntries: reader.number('CACHE_MAX_ENTRIES', DEFAULT_CACHE_MAX_ENTRIES, { integer: true, min: 1 }),
+      maxBytes: reader.number('CACHE_MAX_BYTES', DEFAULT_CACHE_MAX_BYTES, { integer: true, min: 1 }),
+      redisUrl: readUrl(reader, 'REDIS_URL', ['redis:', 'rediss:'], null),
+      redisKeyPrefix: toNamespace(reader.string('REDIS_KEY_PREFIX', DEFAULT_REDIS_KEY_PREFIX)),
+      cacheControl: readCacheControl(reader)
+    },
+    images: {
+      upstreamBase: readUrl(reader, 'IMAGES_UPSTREAM_BASE', ['http:', 'https:'], DEFAULT_IMAGES_UPSTREAM)!.replace(/\/+$/, ''),
+      cacheDir: reader.string('IMAGE_CACHE_DIR', path.join(os.tmpdir(), 'soundtools-image-cache')),
+      cacheMaxBytes: reader.number('IMAGE_CACHE_MAX_BYTES', DEFAULT_IMAGE_CACHE_MAX_BYTES, { integer: true, min: 1 }),
+      cacheControl: reader.string('IMAGE_CACHE_CONTROL', DEFAULT_IMAGE_CACHE_CONTROL)
+    },
+    upstream: {
+      maxRetries: reader.number('UPSTREAM_MAX_RETRIES', DEFAULT_MAX_RETRIES, { integer: true, min: 0 }),
+      retryBaseMs: reader.number('UPSTREAM_RETRY_BASE_MS', DEFAULT_RETRY_BASE_MS, { min: 0 }),
+      maxRetryWaitMs: reader.number('UPSTREAM_MAX_RETRY_WAIT_MS', DEFAULT_MAX_RETRY_WAIT_MS, { min: 0 }),
+      breakerThreshold: reader.number('UPSTREAM_BREAKER_THRESHOLD', DEFAULT_BREAKER_THRESHOLD, { integer: true, min: 1 }),
+      breakerCooldown: reader.number('UPSTREAM_BREAKER_COOLDOWN', DEFAULT_BREAKER_COOLDOWN, { min: 0 })
+    },
+    warmup: {
+      manifest: reader.readableFile('CACHE_WARMUP_MANIFEST'),
+      schedule: readCronSchedule(reader, 'CACHE_WARMUP_SCHEDULE'),
+      concurrency: reader.number('CACHE_WARMUP_CONCURRENCY', DEFAULT_WARMUP_CONCURRENCY, { integer: true, min: 1 })
+    },
+    syncMirror: {
+      enabled: reader.boolean('SYNC_MIRROR', false),
+      interval: reader.number('SYNC_MIRROR_INTERVAL', DEFAULT_SYNC_INTERVAL, { min: 1 }),
+      directory: reader.string('SYNC_MIRROR_DIR', path.join(os.tmpdir(), 'soundtools-sync-mirror'))
+    },
+    graphql: {
+      persistedQueries: reader.readableFile('GRAPHQL_PERSISTED_QUERIES'),
+      allowedOperations: reader.list('GRAPHQL_ALLOWED_OPERATIONS', []).map(hash => hash.toLowerCase())
+    },
+    queryPolicy: {
+      entriesAllowedParams: reader.list('ENTRIES_ALLOWED_PARAMS', DEFAULT_ENTRIES_ALLOWED_PARAMS),
+      maxLimit: reader.number('QUERY_MAX_LIMIT', DEFAULT_MAX_LIMIT, { integer: true, min: 0 }),
+      maxSkip: reader.number('QUERY_MAX_SKIP', DEFAULT_MAX_SKIP, { integer: true, min: 0 }),
+      maxInclude: reader.number('QUERY_MAX_INCLUDE', DEFAULT_MAX_INCLUDE, { integer: true, min: 0 })
+    },
+    contentRoutes: readContentRoutes(reader),
+    urlRewriteRules: readUrlRewriteRules(reader),
+    richTextEntryTemplates: readEntryTemplates(reader)
+  };
+
+  // Settings that only make sense together
+  if (config.cache.backend === 'redis' && !config.cache.redisUrl) {
+    reader.problem('REDIS_URL', 'is required when CACHE_BACKEND=redis');
+  }
+  if (config.rateLimit.store === 'redis' && !config.cache.redisUrl) {
+    reader.problem('REDIS_URL', 'is required when RATE_LIMIT_STORE=redis');
+  }
+  if (config.rateLimit.redisPrefix.startsWith(config.cache.redisKeyPrefix)) {
+    reader.problem('RATE_LIMIT_REDIS_PREFIX', `must not start with REDIS_KEY_PREFIX (${config.cache.redisKeyPrefix}), or cache flushes would reset the counters`);
+  }
+  if (!config.contentful.locales.includes(config.contentful.defaultLocale)) {
+    reader.problem('CONTENTFUL_LOCALES', `must include CONTENTFUL_DEFAULT_LOCALE (${config.contentful.defaultLocale})`);
+  }
+  if (config.cache.staleTtl < config.cache.freshTtl) {
+    reader.problem('CACHE_STALE_TTL', `must not be shorter than CACHE_FRESH_TTL (${config.cache.freshTtl})`);
+  }
+
+  // Typos in the config file would otherwise be silently ignored
+  for (const name of Object.keys(fileSettings)) {
+    if (!reader.known.has(name) && !CACHE_CONTROL_PATTERN.test(name)) {
+      reader.problem(name, 'unknown setting in CONFIG_FILE');
+    }
+  }
+
+  if (reader.problems.length > 0) {
+    throw new ConfigError(reader.problems);
+  }
+  return config;
+};
+
+let current: AppConfig | null = null;
+
+// The configuration loaded at startup. Loads it on first use, so dotenv must have run by then.
+export const getConfig = (): AppConfig => {
+  if (!current) {
+    current = loadConfig();
+  }
+  return current;
+};
+
+const SECRET_KEY_PATTERN = /(token|secret|apikey)$/i;
+
+// Copy of the configuration that is safe to show: secrets are replaced and
+// credentials are stripped from URLs
+export const redactConfig = (value: any, key: string = ''): any => {
+  if (Array.isArray(value)) {
+    return value.map(item => redactConfig(item));
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, redactConfig(item, name)]));
+  }
+  if (typeof value === 'string' && SECRET_KEY_PATTERN.test(key)) {
+    return '[redacted]';
+  }
+  if (typeof value === 'string' && /^[a-z]+:\/\/[^/]*@/i.test(value)) {
+    return value.replace(/^([a-z]+:\/\/)[^/]*@/i, '$1[redacted]@');
+  }
+  return value;
+};
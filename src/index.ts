@@ -1,38 +1,61 @@
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
-import rateLimit from 'express-rate-limit';
-import NodeCache from 'node-cache';
 import dotenv from 'dotenv';
+import { ConfigError, getConfig } from './config';
+import { logger, configureLogger } from './services/logger';
+import { requestContext } from './services/requestContext';
 import { contentfulProxy } from './routes/contentful';
+import { graphqlProxy } from './routes/graphql';
+import { createCacheStore } from './services/cacheStore';
+import { getStaleTtl } from './services/staleCache';
+import { startSyncMirror } from './services/syncMirror';
+import { startCacheWarmup } from './services/cacheWarmup';
 import { healthCheck } from './routes/health';
+import { previewRoutes } from './routes/preview';
+import { contentfulWebhooks } from './routes/webhooks';
+import { adminApi } from './routes/admin';
+import { imageProxy } from './routes/images';
+import { metricsEndpoint } from './routes/metrics';
+import { createImageMissLimiters, createRateLimiters } from './services/rateLimits';
 
 // Load environment variables
 dotenv.config({ path: '.env' });
 
-// Debug: Log environment variables (remove in production)
-console.log('🔧 Environment variables loaded:');
-console.log('PORT:', process.env.PORT);
-console.log('CONTENTFUL_SPACE_ID:', process.env.CONTENTFUL_SPACE_ID ? '✅ Set' : '❌ Missing');
-console.log('CONTENTFUL_ACCESS_TOKEN:', process.env.CONTENTFUL_ACCESS_TOKEN ? '✅ Set' : '❌ Missing');
+// Validate the whole configuration (environment and CONFIG_FILE) before anything starts
+const loadStartupConfig = () => {
+  try {
+    return getConfig();
+  } catch (error: any) {
+    if (error instanceof ConfigError) {
+      // The logger is configured from this config, so the report goes straight to stderr
+      console.error(error.message);
+      process.exit(1);
+    }
+    throw error;
+  }
+};
+const config = loadStartupConfig();
+configureLogger(config.logging);
 
 const app = express();
-const PORT = process.env.PORT || 3000;
-
-// Cache configuration - 5 minutes TTL
-const cache = new NodeCache({ stdTTL: 432000 }); // 5 days in seconds (5 * 24 * 60 * 60)
-
-// Rate limiting configuration
-const limiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100, // limit each IP to 100 requests per windowMs
-  message: {
-    error: 'Too many requests from this IP, please try again later.',
-    retryAfter: '15 minutes'
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
-});
+const PORT = config.port;
+
+// Behind the Heroku router req.ip is the router's address unless its hop is trusted
+app.set('trust proxy', config.trustProxy);
+
+// Cache configuration - entries are kept for the stale window (CACHE_STALE_TTL)
+const cache = createCacheStore(getStaleTtl());
+
+// Local copy of the default space for /entries and /assets (SYNC_MIRROR=true)
+startSyncMirror();
+
+// Rate limiting: per IP for anonymous clients, per API key for trusted ones, plus a
+// smaller budget for expensive requests
+const rateLimiters = createRateLimiters();
+
+// Request IDs, upstream timing and the access log for every request
+app.use(requestContext);
 
 // Security middleware
 app.use(helmet({
@@ -41,7 +64,7 @@ app.use(helmet({
 
 // CORS configuration
 app.use(cors({
-  origin: process.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:3000', 'http://localhost:3001', 'http://192.168.8.161:3000'],
+  origin: config.cors.allowedOrigins,
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   allowedHeaders: [
@@ -52,6 +75,10 @@ app.use(cors({
     'X-Contentful-Content-Type',
     'X-Contentful-Space-Id',
     'X-Contentful-Environment-Id',
+    'X-Preview-Token',
+    'X-Request-Id',
+    'If-None-Match',
+    'If-Modified-Since',
     'Accept',
     'Origin',
     'Referer',
@@ -59,25 +86,36 @@ app.use(cors({
     'sec-ch-ua',
     'sec-ch-ua-mobile',
     'sec-ch-ua-platform'
-  ]
+  ],
+  exposedHeaders: ['X-Cache', 'X-Request-Id', 'ETag', 'Last-Modified']
 }));
 
+// Contentful webhooks are signature-verified and can arrive in bursts during bulk
+// publishing, so they are mounted before the rate limiter and the JSON body parser
+app.use('/api/webhooks', contentfulWebhooks(cache));
+
+// Image bytes are requested many times per page view, so disk cache hits are not counted
+// against the API rate limit; misses (Images API fetches) use the expensive budget
+app.use('/images', imageProxy(createImageMissLimiters()));
+
+// Prometheus scrapes on its own schedule and is authenticated separately
+app.use('/metrics', metricsEndpoint(cache));
+
+// Liveness and readiness probes run every few seconds; their Contentful checks are cached
+app.use('/api/health', healthCheck(cache));
+
 // Rate limiting
-app.use(limiter);
+app.use(rateLimiters);
 
 // Body parsing middleware
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-// Request logging middleware
-app.use((req, res, next) => {
-  console.log(`${new Date().toISOString()} - ${req.method} ${req.path} - IP: ${req.ip}`);
-  next();
-});
-
 // Routes
-app.use('/api/health', healthCheck);
+app.use('/api/preview', previewRoutes);
+app.use('/api/admin', adminApi(cache));
 app.use('/api/contentful', contentfulProxy(cache));
+app.use(['/api/graphql', '/graphql'], graphqlProxy(cache));
 
 // Also handle direct Contentful API paths (without /api/contentful prefix)
 // This allows your frontend to use the same URLs as before, just pointing to your proxy
@@ -94,7 +132,7 @@ app.use('*', (req, res) => {
 
 // Error handling middleware
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  console.error('Error:', err);
+  logger.error('Unhandled error', { error: err.message, stack: err.stack });
   
   res.status(err.status || 500).json({
     error: err.message || 'Internal Server Error',
@@ -105,10 +143,10 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
 
 // Start server
 app.listen(PORT, () => {
-  console.log(`🚀 SoundTools Proxy Server running on port ${PORT}`);
-  console.log(`📊 Health check: http://localhost:${PORT}/api/health`);
-  console.log(`🔗 Contentful proxy: http://localhost:${PORT}/api/contentful`);
-  console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
+  logger.info('SoundTools Proxy Server listening', { port: PORT, environment: config.nodeEnv });
+
+  // Prefetch the queries in CACHE_WARMUP_MANIFEST through the proxy itself
+  startCacheWarmup(`http://127.0.0.1:${PORT}`);
 });
 
 export default app;
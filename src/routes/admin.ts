@@ -0,0 +1,174 @@
+import { Router, Request, Response } from 'express';
+import { CacheStore } from '../services/cacheStore';
+import { requireAdmin } from '../services/adminAuth';
+import { recordAdminAction, getRecentAdminActions } from '../services/audit';
+import { logger } from '../services/logger';
+import { globToRegExp } from '../utils/glob';
+
+const describeKey = async (cache: CacheStore, key: string) => {
+  const value = await cache.get(key);
+  const ttl = await cache.getTtl(key);
+
+  return {
+    key,
+    size: value === undefined ? 0 : Buffer.byteLength(JSON.stringify(value)),
+    expiresAt: ttl ? new Date(ttl).toISOString() : null,
+    ttl: ttl ? Math.max(0, Math.round((ttl - Date.now()) / 1000)) : null
+  };
+};
+
+// Keys selected by an exact key, a prefix or a glob pattern
+const selectKeys = async (cache: CacheStore, selector: { key?: string; prefix?: string; pattern?: string }): Promise<string[]> => {
+  if (selector.key) {
+    return (await cache.has(selector.key)) ? [selector.key] : [];
+  }
+
+  if (selector.prefix) {
+    const prefix = selector.prefix;
+    return (await cache.keys()).filter(key => key.startsWith(prefix));
+  }
+
+  if (selector.pattern) {
+    const regex = globToRegExp(selector.pattern);
+    return (await cache.keys()).filter(key => regex.test(key));
+  }
+
+  return [];
+};
+
+const readSelector = (req: Request) => {
+  const source = { ...req.query, ...(req.body || {}) };
+  const pick = (name: string) => (typeof source[name] === 'string' && source[name] ? source[name] as string : undefined);
+  return { key: pick('key'), prefix: pick('prefix'), pattern: pick('pattern') };
+};
+
+// Authenticated cache management API
+export const adminApi = (cache: CacheStore) => {
+  const router = Router();
+
+  router.use(requireAdmin);
+
+  // Every admin action uses a non-GET method, so none can be triggered by a link, a prefetch
+  // or an image tag, and none ends up in a browser history or shared cache
+
+  // List cache keys with TTL and size, optionally filtered by prefix or glob pattern
+  router.post('/cache/keys/list', async (req: Request, res: Response) => {
+    try {
+      const selector = readSelector(req);
+      const keys = selector.prefix || selector.pattern ? await selectKeys(cache, selector) : await cache.keys();
+
+      recordAdminAction(req, 'cache.list', { ...selector, count: keys.length });
+      res.json({
+        count: keys.length,
+        keys: await Promise.all(keys.sort().map(key => describeKey(cache, key))),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      logger.error('Error listing cache keys', { error: error.message });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to list cache keys'
+      });
+    }
+  });
+
+  // Inspect a single cache entry
+  router.post('/cache/entry', async (req: Request, res: Response) => {
+    try {
+      const { key } = readSelector(req);
+      if (!key) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: '"key" is required'
+        });
+      }
+
+      recordAdminAction(req, 'cache.inspect', { key });
+      const value = await cache.get(key);
+      if (value === undefined) {
+        return res.status(404).json({
+          error: 'Not Found',
+          message: `Cache key ${key} not found`
+        });
+      }
+
+      return res.json({
+        ...(await describeKey(cache, key)),
+        value,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      logger.error('Error inspecting cache key', { error: error.message });
+      return res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to inspect cache key'
+      });
+    }
+  });
+
+  // Delete by exact key, prefix or glob pattern
+  router.delete('/cache/keys', async (req: Request, res: Response) => {
+    try {
+      const selector = readSelector(req);
+      if (!selector.key && !selector.prefix && !selector.pattern) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: 'One of "key", "prefix" or "pattern" is required'
+        });
+      }
+
+      const keys = await selectKeys(cache, selector);
+      const deleted = keys.length > 0 ? await cache.del(keys) : 0;
+
+      recordAdminAction(req, 'cache.delete', { ...selector, deleted });
+      return res.json({
+        message: 'Cache keys deleted',
+        deleted,
+        keys,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      logger.error('Error deleting cache keys', { error: error.message });
+      return res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to delete cache keys'
+      });
+    }
+  });
+
+  // Flush the whole cache
+  router.post('/cache/flush', async (req: Request, res: Response) => {
+    try {
+      const count = (await cache.keys()).length;
+      await cache.flush();
+
+      recordAdminAction(req, 'cache.flush', { deleted: count });
+      logger.info('Cache cleared');
+      res.json({
+        message: 'Cache cleared successfully',
+        deleted: count,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      logger.error('Error clearing cache', { error: error.message });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to clear cache'
+      });
+    }
+  });
+
+  // Recent admin actions
+  router.post('/audit', (req: Request, res: Response) => {
+    const limit = Math.min(Number(req.body?.limit ?? req.query.limit) || 50, 200);
+    const entries = getRecentAdminActions(limit);
+
+    recordAdminAction(req, 'audit.read', { limit });
+    res.json({
+      entries,
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  return router;
+};
@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import { Router, Request, Response } from 'express';
+import { AxiosResponse } from 'axios';
+import { CacheStore } from '../services/cacheStore';
+import { generateCacheKey } from '../services/cacheKeys';
+import { previewMode } from '../services/preview';
+import { resolveOperation, resolveOperationName } from '../services/persistedQueries';
+import { getDefaultUpstream, getUpstreamGraphqlClient } from '../services/upstreams';
+import { transformGraphqlUrls } from '../services/urlTransform';
+import { fetchAndCache, readCache, revalidateInBackground } from '../services/staleCache';
+import { isInFlight } from '../services/coalescer';
+import { logger } from '../services/logger';
+import { CircuitOpenError } from '../services/resilience';
+import { computeValidators, sendWithValidators } from '../services/httpValidators';
+
+// Responses with GraphQL errors are passed on but never cached
+class UncacheableGraphqlResponse extends Error {
+  constructor(readonly body: any) {
+    super('GraphQL response contains errors');
+  }
+}
+
+const sendGraphqlError = (res: Response, status: number, code: string, message: string) => {
+  return res.status(status).json({
+    errors: [{ message, extensions: { code } }]
+  });
+};
+
+// JSON with sorted object keys, so equal variables always produce the same cache key
+const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+// GraphQL Content API proxy for the default space/environment
+export const graphqlProxy = (cache: CacheStore) => {
+  const router = Router();
+
+  router.use(previewMode);
+
+  router.post('/', async (req: Request, res: Response) => {
+    const { operation, error } = resolveOperation(req.body);
+    if (!operation) {
+      return sendGraphqlError(res, error!.status, error!.code, error!.message);
+    }
+
+    const { variables, operationName: requestedName } = req.body;
+    if (variables !== undefined && variables !== null && (typeof variables !== 'object' || Array.isArray(variables))) {
+      return sendGraphqlError(res, 400, 'BAD_REQUEST', '"variables" must be an object');
+    }
+    if (requestedName !== undefined && requestedName !== null && typeof requestedName !== 'string') {
+      return sendGraphqlError(res, 400, 'BAD_REQUEST', '"operationName" must be a string');
+    }
+    // Only names the document defines reach the cache key, so made-up names can't add entries
+    const operationName = resolveOperationName(operation, requestedName || undefined);
+    if (operationName === null) {
+      return sendGraphqlError(res, 400, 'BAD_REQUEST', `Operation "${requestedName}" is not defined in the document`);
+    }
+
+    const label = `GraphQL ${operationName || operation.hash.slice(0, 12)}`;
+    res.locals.resource = 'graphql';
+
+    try {
+      const upstream = getDefaultUpstream();
+      if (!upstream) {
+        return sendGraphqlError(res, 500, 'SERVER_CONFIGURATION_ERROR', 'Contentful client not configured');
+      }
+
+      const preview: boolean = res.locals.preview;
+      const client = getUpstreamGraphqlClient(upstream, preview);
+      if (!client) {
+        return sendGraphqlError(res, 403, 'PREVIEW_NOT_AVAILABLE', 'Contentful Preview API is not configured for this space/environment');
+      }
+
+      // Preview queries take a $preview variable, the way Contentful's GraphQL API expects
+      const upstreamVariables = preview ? { ...(variables || {}), preview: true } : variables || {};
+
+      const fetchFromContentful = async () => {
+        const response: AxiosResponse = await client.post('', {
+          query: operation.query,
+          variables: upstreamVariables,
+          ...(operationName ? { operationName } : {})
+        });
+
+        const data = transformGraphqlUrls(response.data);
+        if (Array.isArray(data?.errors) && data.errors.length > 0) {
+          throw new UncacheableGraphqlResponse(data);
+        }
+        return data;
+      };
+
+      // Cached by operation and variables
+      const cacheKey = generateCacheKey('graphql', {
+        operation: operation.hash,
+        operationName,
+        variables: crypto.createHash('sha256').update(stableStringify(variables || {})).digest('hex')
+      });
+
+      if (preview) {
+        logger.debug('Fetching from Contentful', { resource: label });
+        const data = await fetchFromContentful();
+        res.set('X-Cache', 'BYPASS');
+        return sendWithValidators(req, res, data, computeValidators(data));
+      }
+
+      const cached = await readCache(cache, cacheKey);
+      if (cached) {
+        if (cached.status === 'STALE') {
+          logger.debug('Serving stale copy while revalidating', { resource: label });
+          revalidateInBackground(cache, cacheKey, fetchFromContentful, label);
+        } else {
+          logger.debug('Cache hit', { resource: label });
+        }
+        res.set('X-Cache', cached.status);
+        return sendWithValidators(req, res, cached.data, cached.validators);
+      }
+
+      if (isInFlight(cacheKey)) {
+        logger.debug('Joining in-flight request', { resource: label });
+      } else {
+        logger.debug('Fetching from Contentful', { resource: label });
+      }
+      const envelope = await fetchAndCache(cache, cacheKey, fetchFromContentful);
+
+      res.set('X-Cache', 'MISS');
+      return sendWithValidators(req, res, envelope.data, envelope.validators);
+    } catch (error: any) {
+      if (error instanceof UncacheableGraphqlResponse) {
+        res.set('X-Cache', 'BYPASS');
+        return res.json(error.body);
+      }
+
+      logger.error('Error fetching from Contentful', { resource: label, status: error.response?.status, error: error.message });
+      if (error instanceof CircuitOpenError) {
+        res.set('Retry-After', String(Math.max(1, Math.ceil((error.retryAt - Date.now()) / 1000))));
+        return sendGraphqlError(res, 503, 'SERVICE_UNAVAILABLE', 'Contentful GraphQL API is temporarily unavailable');
+      }
+      if (error.response) {
+        return res.status(error.response.status).json(
+          error.response.data?.errors
+            ? transformGraphqlUrls(error.response.data)
+            : { errors: [{ message: error.response.data?.message || 'Contentful GraphQL API Error' }] }
+        );
+      }
+      return sendGraphqlError(res, 500, 'INTERNAL_SERVER_ERROR', 'Failed to connect to Contentful GraphQL API');
+    }
+  });
+
+  return router;
+};
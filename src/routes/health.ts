@@ -1,98 +1,122 @@
 import { Router, Request, Response } from 'express';
-import axios from 'axios';
+import { getConfig, redactConfig } from '../config';
+import { logger } from '../services/logger';
+import { CacheStore } from '../services/cacheStore';
+import { checkReadiness } from '../services/healthProbes';
+import { getRecentUpstreamErrors } from '../services/upstreamErrors';
+import { getWarmupStatus } from '../services/cacheWarmup';
+import { getCircuitBreakerStatus } from '../services/resilience';
 
-const router = Router();
+// Health endpoints: /live for process liveness, /ready for dependency readiness, / as a
+// summary for uptime monitors and /detailed for debugging. Failing checks answer 503.
+export const healthCheck = (cache: CacheStore) => {
+  const router = Router();
 
-// Health check endpoint
-router.get('/', async (req: Request, res: Response) => {
-  try {
-    const startTime = Date.now();
-    
-    // Basic health check
-    const healthData: any = {
-      status: 'healthy',
+  // Liveness: the process is up and serving requests; never depends on Contentful
+  router.get('/live', (req: Request, res: Response) => {
+    res.set('Cache-Control', 'no-store');
+    res.json({
+      status: 'ok',
       timestamp: new Date().toISOString(),
-      uptime: process.uptime(),
-      memory: process.memoryUsage(),
-      environment: process.env.NODE_ENV || 'development',
-      version: process.env.npm_package_version || '1.0.0'
-    };
+      uptime: process.uptime()
+    });
+  });
 
-    // Test Contentful connection if credentials are available
-    if (process.env.CONTENTFUL_SPACE_ID && process.env.CONTENTFUL_ACCESS_TOKEN) {
-      try {
-        const contentfulTest = await axios.get(
-          `https://cdn.contentful.com/spaces/${process.env.CONTENTFUL_SPACE_ID}/entries?limit=1`,
-          {
-            headers: {
-              'Authorization': `Bearer ${process.env.CONTENTFUL_ACCESS_TOKEN}`
-            },
-            timeout: 5000
-          }
-        );
-        
-        healthData['contentful'] = {
-          status: 'connected',
-          responseTime: Date.now() - startTime,
-          spaceId: process.env.CONTENTFUL_SPACE_ID
-        };
-      } catch (error: any) {
-        healthData['contentful'] = {
-          status: 'error',
-          error: error.message,
-          responseTime: Date.now() - startTime
-        };
-      }
-    } else {
-      healthData['contentful'] = {
-        status: 'not_configured',
-        message: 'Contentful credentials not set'
-      };
+  // Readiness: every Contentful space/environment and the cache backend respond
+  router.get('/ready', async (req: Request, res: Response) => {
+    try {
+      const readiness = await checkReadiness(cache);
+      res.set('Cache-Control', 'no-store');
+      res.status(readiness.ready ? 200 : 503).json({
+        status: readiness.ready ? 'ready' : 'not_ready',
+        timestamp: new Date().toISOString(),
+        ...readiness
+      });
+    } catch (error: any) {
+      logger.error('Readiness check error', { error: error.message });
+      res.status(503).json({
+        status: 'not_ready',
+        error: error.message,
+        timestamp: new Date().toISOString()
+      });
     }
+  });
 
-    res.json(healthData);
-  } catch (error: any) {
-    console.error('❌ Health check error:', error.message);
-    res.status(500).json({
-      status: 'unhealthy',
-      error: error.message,
-      timestamp: new Date().toISOString()
-    });
-  }
-});
+  // Health check endpoint
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const readiness = await checkReadiness(cache);
 
-// Detailed health check with more system information
-router.get('/detailed', (req: Request, res: Response) => {
-  try {
-    const healthData = {
-      status: 'healthy',
-      timestamp: new Date().toISOString(),
-      system: {
+      // Basic health check
+      const healthData: any = {
+        status: 'healthy',
+        timestamp: new Date().toISOString(),
         uptime: process.uptime(),
         memory: process.memoryUsage(),
-        cpu: process.cpuUsage(),
-        platform: process.platform,
-        nodeVersion: process.version,
-        pid: process.pid
-      },
-      environment: {
-        nodeEnv: process.env.NODE_ENV || 'development',
-        port: process.env.PORT || 3000,
-        hasContentfulSpaceId: !!process.env.CONTENTFUL_SPACE_ID,
-        hasContentfulAccessToken: !!process.env.CONTENTFUL_ACCESS_TOKEN
-      },
-      version: process.env.npm_package_version || '1.0.0'
-    };
+        environment: getConfig().nodeEnv,
+        version: process.env.npm_package_version || '1.0.0',
+        dependencies: readiness.dependencies,
+        checkedAt: readiness.checkedAt,
+        warmup: getWarmupStatus(),
+        circuitBreakers: getCircuitBreakerStatus()
+      };
 
-    res.json(healthData);
-  } catch (error: any) {
-    console.error('❌ Detailed health check error:', error.message);
-    res.status(500).json({
-      status: 'unhealthy',
-      error: error.message,
-      timestamp: new Date().toISOString()
-    });
-  }
-});
+      // An open breaker means some Contentful API is failing fast right now
+      if (healthData.circuitBreakers.some((breaker: any) => breaker.state !== 'closed')) {
+        healthData.status = 'degraded';
+      }
+      if (!readiness.ready) {
+        healthData.status = 'unhealthy';
+      }
+
+      res.set('Cache-Control', 'no-store');
+      res.status(readiness.ready ? 200 : 503).json(healthData);
+    } catch (error: any) {
+      logger.error('Health check error', { error: error.message });
+      res.status(500).json({
+        status: 'unhealthy',
+        error: error.message,
+        timestamp: new Date().toISOString()
+      });
+    }
+  });
+
+  // Detailed health check with more system information
+  router.get('/detailed', async (req: Request, res: Response) => {
+    try {
+      const readiness = await checkReadiness(cache);
+      const healthData = {
+        status: readiness.ready ? 'healthy' : 'unhealthy',
+        timestamp: new Date().toISOString(),
+        system: {
+          uptime: process.uptime(),
+          memory: process.memoryUsage(),
+          cpu: process.cpuUsage(),
+          platform: process.platform,
+          nodeVersion: process.version,
+          pid: process.pid
+        },
+        dependencies: readiness.dependencies,
+        checkedAt: readiness.checkedAt,
+        circuitBreakers: getCircuitBreakerStatus(),
+        // Last HEALTH_RECENT_ERRORS failed Contentful calls, newest first
+        recentUpstreamErrors: getRecentUpstreamErrors(),
+        // Effective configuration with tokens, secrets and URL credentials redacted
+        config: redactConfig(getConfig()),
+        version: process.env.npm_package_version || '1.0.0'
+      };
+
+      res.set('Cache-Control', 'no-store');
+      res.status(readiness.ready ? 200 : 503).json(healthData);
+    } catch (error: any) {
+      logger.error('Detailed health check error', { error: error.message });
+      res.status(500).json({
+        status: 'unhealthy',
+        error: error.message,
+        timestamp: new Date().toISOString()
+      });
+    }
+  });
 
-export { router as healthCheck };
+  return router;
+};
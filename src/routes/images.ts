@@ -0,0 +1,217 @@
+import fs from 'fs';
+import { pipeline } from 'stream/promises';
+import { PassThrough, Readable, finished } from 'stream';
+import { Router, Request, Response, NextFunction, RequestHandler } from 'express';
+import axios from 'axios';
+import { getConfig } from '../config';
+import { DiskCache } from '../services/diskCache';
+import { listUpstreams } from '../services/upstreams';
+import { logger } from '../services/logger';
+import { traceUpstream } from '../services/requestContext';
+
+export const DEFAULT_IMAGES_UPSTREAM = 'https://images.ctfassets.net';
+export const DEFAULT_IMAGE_CACHE_MAX_BYTES = 512 * 1024 * 1024; // 512 MB
+// Contentful image URLs contain a content hash, so a given URL never changes
+export const DEFAULT_IMAGE_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+const FIT_VALUES = ['pad', 'fill', 'scale', 'crop', 'thumb'];
+const FORMAT_VALUES = ['webp', 'avif'];
+
+// Whitelisted Images API parameters, in the order they appear in upstream URLs and cache keys
+const IMAGE_PARAMS: Record<string, (value: string) => boolean> = {
+  w: value => /^\d+$/.test(value) && Number(value) >= 1 && Number(value) <= 4000,
+  h: value => /^\d+$/.test(value) && Number(value) >= 1 && Number(value) <= 4000,
+  fm: value => FORMAT_VALUES.includes(value),
+  q: value => /^\d+$/.test(value) && Number(value) >= 1 && Number(value) <= 100,
+  fit: value => FIT_VALUES.includes(value)
+};
+
+// Keep only whitelisted params, in a fixed order; returns an error message for invalid values
+const normalizeImageParams = (query: Request['query']): { params: URLSearchParams; error?: string } => {
+  const params = new URLSearchParams();
+  for (const [name, isValid] of Object.entries(IMAGE_PARAMS)) {
+    const value = query[name];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'string' || !isValid(value)) {
+      return { params, error: `Invalid value for image parameter "${name}"` };
+    }
+    params.set(name, value);
+  }
+  return { params };
+};
+
+// Resolves once the file is open, so a missing file is noticed before any header is sent
+const openReadStream = (file: string): Promise<fs.ReadStream> => {
+  return new Promise((resolve, reject) => {
+    const stream = fs.createReadStream(file);
+    stream.once('open', () => resolve(stream));
+    stream.once('error', reject);
+  });
+};
+
+// What the cache lookup hands over to the fetch on a miss
+interface ImageRequest {
+  assetPath: string;
+  query: string;
+  cacheKey: string;
+}
+
+const sendImageError = (res: Response, assetId: string, error: any) => {
+  logger.error('Error fetching image', { assetId, error: error.message });
+  if (res.headersSent) {
+    res.destroy();
+    return res;
+  }
+  return res.status(502).json({
+    error: 'Bad Gateway',
+    message: 'Failed to fetch image'
+  });
+};
+
+// Image asset proxy with transformation params and a local disk cache. `missLimiters`
+// run only when the image has to be fetched, so disk cache hits are never limited.
+export const imageProxy = (missLimiters: RequestHandler[] = []) => {
+  const router = Router();
+  const client = axios.create();
+  traceUpstream(client, 'images');
+  const { upstreamBase, cacheControl, cacheDir, cacheMaxBytes } = getConfig().images;
+  const diskCache = new DiskCache({
+    directory: cacheDir,
+    maxBytes: cacheMaxBytes
+  });
+
+  // Validate the request and serve it from the disk cache when possible
+  const serveFromDiskCache = async (req: Request, res: Response, next: NextFunction) => {
+    const { spaceId, assetId, token, filename } = req.params;
+    res.locals.resource = 'images';
+
+    try {
+      // Only serve assets of configured spaces, so the route can't be used as an open proxy
+      if (!listUpstreams().some(upstream => upstream.spaceId === spaceId)) {
+        return res.status(404).json({
+          error: 'Not Found',
+          message: `Space "${spaceId}" is not configured on this proxy`
+        });
+      }
+
+      const { params, error } = normalizeImageParams(req.query);
+      if (error) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: error
+        });
+      }
+
+      const assetPath = [spaceId, assetId, token, filename].map(encodeURIComponent).join('/');
+      const query = params.toString();
+      const cacheKey = `${assetPath}?${query}`;
+
+      // The file can be evicted between the lookup and the read; then it is fetched again
+      const cached = diskCache.get(cacheKey);
+      const cachedFile = cached
+        ? await openReadStream(cached.path).catch(() => {
+          diskCache.delete(cacheKey);
+          return null;
+        })
+        : null;
+      if (cached && cachedFile) {
+        res.set({
+          'Content-Type': cached.contentType,
+          'Content-Length': String(cached.size),
+          'Cache-Control': cacheControl,
+          'X-Cache': 'HIT'
+        });
+        await pipeline(cachedFile, res);
+        return res;
+      }
+
+      const imageRequest: ImageRequest = { assetPath, query, cacheKey };
+      res.locals.imageRequest = imageRequest;
+      return next();
+    } catch (error: any) {
+      return sendImageError(res, assetId, error);
+    }
+  };
+
+  // Fetch a missed image from the Images API, streaming it to the client and the disk cache
+  const fetchImage = async (req: Request, res: Response) => {
+    const { assetId } = req.params;
+    const { assetPath, query, cacheKey }: ImageRequest = res.locals.imageRequest;
+
+    try {
+      logger.debug('Fetching image from Contentful', { asset: assetPath });
+      const upstream = await client.get(`${upstreamBase}/${assetPath}${query ? `?${query}` : ''}`, {
+        responseType: 'stream',
+        timeout: 30000,
+        validateStatus: () => true
+      });
+
+      const contentType = String(upstream.headers['content-type'] || 'application/octet-stream');
+      if (upstream.status !== 200) {
+        upstream.data.resume();
+        return res.status(upstream.status === 404 ? 404 : 502).json({
+          error: upstream.status === 404 ? 'Not Found' : 'Bad Gateway',
+          message: `Images API responded with ${upstream.status}`
+        });
+      }
+
+      res.set({
+        'Content-Type': contentType,
+        'Cache-Control': cacheControl,
+        'X-Cache': 'MISS'
+      });
+      if (upstream.headers['content-length']) {
+        res.set('Content-Length', String(upstream.headers['content-length']));
+      }
+
+      // Stream to the client and the disk cache at the same time
+      const tempFile = diskCache.tempPath(cacheKey);
+      const source: Readable = upstream.data;
+      const toDisk = new PassThrough();
+      const toClient = new PassThrough();
+      source.pipe(toDisk);
+      source.pipe(toClient);
+      // pipe() doesn't forward errors: a failed download must fail both branches, so the
+      // client connection is closed and the partial file is not cached
+      finished(source, error => {
+        if (error) {
+          toDisk.destroy(error);
+          toClient.destroy(error);
+        }
+      });
+
+      const [diskResult] = await Promise.allSettled([
+        pipeline(toDisk, fs.createWriteStream(tempFile)),
+        pipeline(toClient, res)
+      ]);
+
+      if (diskResult.status === 'fulfilled') {
+        diskCache.commit(cacheKey, tempFile, contentType);
+      } else {
+        fs.rmSync(tempFile, { force: true });
+        logger.warn('Image download failed', { asset: assetPath, error: diskResult.reason?.message });
+      }
+      return res;
+    } catch (error: any) {
+      return sendImageError(res, assetId, error);
+    }
+  };
+
+  // Same path layout as images.ctfassets.net: /:spaceId/:assetId/:token/:filename
+  router.get('/:spaceId/:assetId/:token/:filename', serveFromDiskCache, ...missLimiters, fetchImage);
+
+  // Disk cache usage
+  router.get('/cache/stats', (req: Request, res: Response) => {
+    res.json({
+      stats: {
+        files: diskCache.count,
+        bytes: diskCache.size
+      },
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  return router;
+};
@@ -0,0 +1,78 @@
+import { Router, Request, Response } from 'express';
+import { CacheStore, CacheStoreStats } from '../services/cacheStore';
+import { getCoalescingStats } from '../services/coalescer';
+import { getCircuitBreakerStatus } from '../services/resilience';
+import { Collector, MetricSample, renderMetrics } from '../services/metrics';
+import { requireMetricsAccess } from '../services/metricsAuth';
+import { logger } from '../services/logger';
+
+// Cache backend stats, read once per scrape and shared by the cache collectors
+const registerCacheCollectors = (cache: CacheStore) => {
+  let pending: Promise<CacheStoreStats | null> | null = null;
+  const readStats = () => {
+    if (!pending) {
+      pending = cache.getStats()
+        .catch((error: any) => {
+          logger.error('Error reading cache stats for metrics', { error: error.message });
+          return null;
+        })
+        .finally(() => {
+          setImmediate(() => {
+            pending = null;
+          });
+        });
+    }
+    return pending;
+  };
+
+  const sample = (read: (stats: CacheStoreStats) => number | undefined) => async (): Promise<MetricSample[]> => {
+    const stats = await readStats();
+    const value = stats ? read(stats) : undefined;
+    return value === undefined ? [] : [{ labels: { backend: stats!.backend }, value }];
+  };
+
+  new Collector('proxy_cache_entries', 'Keys in the response cache', 'gauge', sample(stats => stats.keys));
+  new Collector('proxy_cache_size_bytes', 'Serialized size of the response cache (memory backend)', 'gauge', sample(stats => stats.bytes));
+  new Collector('proxy_cache_evictions_total', 'Entries evicted to stay within the cache size limits', 'counter', sample(stats => stats.evictions));
+  new Collector('proxy_cache_backend_hits_total', 'Key lookups answered by the cache backend', 'counter', sample(stats => stats.hits));
+  new Collector('proxy_cache_backend_misses_total', 'Key lookups the cache backend had no entry for', 'counter', sample(stats => stats.misses));
+};
+
+const registerProcessCollectors = () => {
+  new Collector('proxy_coalesced_requests_total', 'Cache misses that joined an in-flight upstream call', 'counter', () => [
+    { labels: {}, value: getCoalescingStats().coalescedRequests }
+  ]);
+  new Collector('contentful_circuit_breaker_open', 'Whether the circuit breaker of a Contentful client is open (1) or closed (0)', 'gauge', () =>
+    getCircuitBreakerStatus().map(breaker => ({ labels: { client: breaker.name }, value: breaker.state === 'closed' ? 0 : 1 }))
+  );
+  new Collector('process_resident_memory_bytes', 'Resident memory size in bytes', 'gauge', () => [
+    { labels: {}, value: process.memoryUsage().rss }
+  ]);
+  new Collector('process_uptime_seconds', 'Seconds since the process started', 'gauge', () => [
+    { labels: {}, value: process.uptime() }
+  ]);
+};
+
+// Prometheus scrape endpoint, guarded by METRICS_TOKEN and/or METRICS_ALLOWED_IPS
+export const metricsEndpoint = (cache: CacheStore) => {
+  const router = Router();
+
+  registerCacheCollectors(cache);
+  registerProcessCollectors();
+
+  router.get('/', requireMetricsAccess, async (req: Request, res: Response) => {
+    try {
+      res.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+      res.set('Cache-Control', 'no-store');
+      res.send(await renderMetrics());
+    } catch (error: any) {
+      logger.error('Error rendering metrics', { error: error.message });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to collect metrics'
+      });
+    }
+  });
+
+  return router;
+};
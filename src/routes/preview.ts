@@ -0,0 +1,64 @@
+import { Router, Request, Response } from 'express';
+import { getConfig } from '../config';
+import { logger } from '../services/logger';
+import {
+  PREVIEW_COOKIE,
+  PREVIEW_TOKEN_TTL,
+  createPreviewToken,
+  isValidPreviewSecret
+} from '../services/preview';
+
+const router = Router();
+
+// Exchange the preview secret for a signed, short-lived preview cookie
+router.post('/enable', (req: Request, res: Response) => {
+  try {
+    if (!getConfig().preview.secret) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Preview mode is not enabled on this proxy'
+      });
+    }
+
+    if (!isValidPreviewSecret(req.body?.secret)) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Invalid preview secret'
+      });
+    }
+
+    const token = createPreviewToken();
+    res.cookie(PREVIEW_COOKIE, token, {
+      httpOnly: true,
+      secure: getConfig().nodeEnv === 'production',
+      sameSite: getConfig().nodeEnv === 'production' ? 'none' : 'lax',
+      maxAge: PREVIEW_TOKEN_TTL * 1000
+    });
+    res.set('Cache-Control', 'private, no-store');
+
+    logger.info('Preview mode enabled');
+    return res.json({
+      message: 'Preview mode enabled',
+      token,
+      expiresIn: PREVIEW_TOKEN_TTL,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error: any) {
+    logger.error('Error enabling preview mode', { error: error.message });
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to enable preview mode'
+    });
+  }
+});
+
+// Drop the preview cookie
+router.post('/disable', (req: Request, res: Response) => {
+  res.clearCookie(PREVIEW_COOKIE);
+  res.json({
+    message: 'Preview mode disabled',
+    timestamp: new Date().toISOString()
+  });
+});
+
+export { router as previewRoutes };
@@ -0,0 +1,99 @@
+import express, { Router, Request, Response } from 'express';
+import { getConfig } from '../config';
+import { logger } from '../services/logger';
+import { CacheStore } from '../services/cacheStore';
+import { verifyContentfulSignature } from '../services/webhookSignature';
+import { invalidateItem, InvalidationEntityType } from '../services/invalidation';
+import { getSyncMirror } from '../services/syncMirror';
+
+const ENTITY_TYPES: InvalidationEntityType[] = ['Entry', 'Asset', 'ContentType'];
+// Only these change what the Delivery API returns; save and auto_save only touch drafts
+const INVALIDATING_ACTIONS = ['publish', 'unpublish', 'archive', 'delete'];
+
+// Topics look like ContentManagement.Entry.publish
+const parseTopic = (topic: string | undefined) => {
+  const [, entityType, action] = (topic || '').split('.');
+  return { entityType, action };
+};
+
+// Contentful webhook receiver
+export const contentfulWebhooks = (cache: CacheStore) => {
+  const router = Router();
+
+  // The signature covers the exact request body, so keep it raw here
+  router.post('/contentful', express.raw({ type: '*/*', limit: '1mb' }), async (req: Request, res: Response) => {
+    try {
+      const secret = getConfig().contentful.webhookSecret;
+      if (!secret) {
+        return res.status(404).json({
+          error: 'Not Found',
+          message: 'Webhook invalidation is not enabled on this proxy'
+        });
+      }
+
+      const body = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '';
+      const verified = verifyContentfulSignature(secret, {
+        method: req.method,
+        path: req.originalUrl,
+        headers: req.headers,
+        body
+      });
+      if (!verified) {
+        logger.warn('Rejected webhook with invalid signature');
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Invalid webhook signature'
+        });
+      }
+
+      let payload: any;
+      try {
+        payload = JSON.parse(body);
+      } catch (error) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: 'Webhook body is not valid JSON'
+        });
+      }
+
+      const { entityType, action } = parseTopic(req.get('x-contentful-topic'));
+      const sys = payload?.sys;
+      if (!ENTITY_TYPES.includes(entityType as InvalidationEntityType) || !INVALIDATING_ACTIONS.includes(action) || !sys?.id) {
+        logger.debug('Ignoring webhook topic', { topic: req.get('x-contentful-topic') });
+        return res.json({
+          message: 'Webhook ignored',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const evicted = await invalidateItem(cache, {
+        entityType: entityType as InvalidationEntityType,
+        id: sys.id,
+        spaceId: sys.space?.sys?.id,
+        environment: sys.environment?.sys?.id,
+        contentTypeId: sys.contentType?.sys?.id
+      });
+      logger.info('Evicted cache keys for webhook', { entityType, id: sys.id, action, evicted: evicted.length });
+
+      // Pull the change into the sync mirror now instead of waiting for the next tick
+      getSyncMirror()?.requestSync();
+
+      return res.json({
+        message: 'Cache invalidated',
+        entityType,
+        id: sys.id,
+        action,
+        evicted: evicted.length,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      logger.error('Error handling webhook', { error: error.message });
+      return res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to process webhook'
+      });
+    }
+  });
+
+  return router;
+};
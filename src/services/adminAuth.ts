@@ -0,0 +1,39 @@
+import { Request, Response, NextFunction } from 'express';
+import { getConfig } from '../config';
+import { logger } from './logger';
+import { recordAdminAction } from './audit';
+import { safeEqual } from '../utils/crypto';
+
+// Key presented as `Authorization: Bearer <key>` or `X-Admin-Key: <key>`
+const getPresentedKey = (req: Request): string | undefined => {
+  const authorization = req.get('authorization');
+  if (authorization && authorization.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+  return req.get('x-admin-key');
+};
+
+// Middleware guarding the admin API with ADMIN_API_KEY
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  const adminKey = getConfig().admin.apiKey;
+  if (!adminKey) {
+    return res.status(404).json({
+      error: 'Not Found',
+      message: 'Admin API is not enabled on this proxy'
+    });
+  }
+
+  const presented = getPresentedKey(req);
+  if (!presented || !safeEqual(presented, adminKey)) {
+    logger.warn('Rejected admin request', { method: req.method, path: req.originalUrl, ip: req.ip });
+    // Key guessing shows up in the audit trail next to the actions it was after
+    recordAdminAction(req, 'auth.failed', { reason: presented ? 'invalid key' : 'missing key' });
+    res.set('WWW-Authenticate', 'Bearer');
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid admin API key required'
+    });
+  }
+
+  return next();
+};
@@ -0,0 +1,52 @@
+import fs from 'fs';
+import { Request } from 'express';
+import { getConfig } from '../config';
+import { logger } from './logger';
+
+export interface AuditEntry {
+  timestamp: string;
+  action: string;
+  method: string;
+  path: string;
+  ip: string | undefined;
+  details?: Record<string, any>;
+}
+
+const MAX_RECENT_ENTRIES = 200;
+const recentEntries: AuditEntry[] = [];
+
+// Record an admin action to stdout, the in-memory ring buffer and, when
+// ADMIN_AUDIT_LOG is set, an append-only JSON lines file
+export const recordAdminAction = (req: Request, action: string, details?: Record<string, any>): AuditEntry => {
+  const entry: AuditEntry = {
+    timestamp: new Date().toISOString(),
+    action,
+    method: req.method,
+    path: req.originalUrl,
+    ip: req.ip,
+    details
+  };
+
+  recentEntries.push(entry);
+  if (recentEntries.length > MAX_RECENT_ENTRIES) {
+    recentEntries.shift();
+  }
+
+  logger.info('Admin audit', { ...entry });
+
+  const auditFile = getConfig().admin.auditLog;
+  if (auditFile) {
+    fs.appendFile(auditFile, `${JSON.stringify(entry)}\n`, error => {
+      if (error) {
+        logger.error('Failed to write admin audit log', { error: error.message });
+      }
+    });
+  }
+
+  return entry;
+};
+
+// Most recent audit entries, newest first
+export const getRecentAdminActions = (limit: number = MAX_RECENT_ENTRIES): AuditEntry[] => {
+  return recentEntries.slice(-limit).reverse();
+};
@@ -0,0 +1,49 @@
+const CACHE_KEY_PREFIX = 'contentful';
+
+export interface ParsedCacheKey {
+  // Only set for keys built from the full /spaces/:spaceId/environments/:environment paths
+  spaceId?: string;
+  environment?: string;
+  resource: string;
+  itemId?: string;
+  query: URLSearchParams;
+}
+
+// Cache key generator. Params are sorted so equivalent queries share a key.
+export const generateCacheKey = (path: string, query: Record<string, string>): string => {
+  const params = new URLSearchParams(query);
+  params.sort();
+  const queryString = params.toString();
+  return `${CACHE_KEY_PREFIX}:${path}:${queryString}`;
+};
+
+// Split a key produced by generateCacheKey back into its parts
+export const parseCacheKey = (key: string): ParsedCacheKey | null => {
+  if (!key.startsWith(`${CACHE_KEY_PREFIX}:`)) {
+    return null;
+  }
+
+  const rest = key.slice(CACHE_KEY_PREFIX.length + 1);
+  const separator = rest.indexOf(':');
+  if (separator === -1) {
+    return null;
+  }
+
+  const segments = rest.slice(0, separator).split('/');
+  const query = new URLSearchParams(rest.slice(separator + 1));
+
+  let spaceId: string | undefined;
+  let environment: string | undefined;
+  if (segments[0] === 'spaces' && segments[2] === 'environments') {
+    spaceId = segments[1];
+    environment = segments[3];
+    segments.splice(0, 4);
+  }
+
+  const [resource, itemId] = segments;
+  if (!resource) {
+    return null;
+  }
+
+  return { spaceId, environment, resource, itemId, query };
+};
@@ -0,0 +1,61 @@
+import { getConfig } from '../config';
+import { logger } from './logger';
+import { MemoryCacheStore } from './memoryCacheStore';
+import { RedisCacheStore } from './redisCacheStore';
+
+export type CacheBackend = 'memory' | 'redis';
+
+export const DEFAULT_CACHE_MAX_ENTRIES = 10000;
+export const DEFAULT_CACHE_MAX_BYTES = 128 * 1024 * 1024; // 128 MB
+
+export interface CacheStoreStats {
+  backend: CacheBackend;
+  keys: number;
+  hits: number;
+  misses: number;
+  // Backends that enforce their own size limits report usage and evictions
+  bytes?: number;
+  evictions?: number;
+}
+
+// Storage the proxy caches responses in. Implementations must behave the same way
+// so that routes, invalidation and the admin API work on any backend.
+export interface CacheStore {
+  readonly backend: CacheBackend;
+  get<T = any>(key: string): Promise<T | undefined>;
+  // ttl in seconds; omitted means the backend's default
+  set<T = any>(key: string, value: T, ttl?: number): Promise<void>;
+  // Returns the number of keys that were deleted
+  del(keys: string | string[]): Promise<number>;
+  has(key: string): Promise<boolean>;
+  keys(): Promise<string[]>;
+  // Expiry as a unix timestamp in ms, 0 when the key never expires, undefined when missing
+  getTtl(key: string): Promise<number | undefined>;
+  flush(): Promise<void>;
+  // Reverse index from item IDs (sys.id) to the keys whose values contain them, filled when
+  // a value is written, so that invalidation doesn't have to read every entry. The index may
+  // still list keys that were overwritten or deleted since; evicting those is harmless.
+  addReferences(key: string, ids: string[], ttl?: number): Promise<void>;
+  getReferencingKeys(id: string): Promise<string[]>;
+  getStats(): Promise<CacheStoreStats>;
+  // Round-trip check used by health probes
+  ping(): Promise<void>;
+}
+
+// Pick the backend from CACHE_BACKEND (memory by default, redis uses REDIS_URL). The memory
+// backend is capped by CACHE_MAX_ENTRIES / CACHE_MAX_BYTES; Redis by its own maxmemory setting.
+export const createCacheStore = (defaultTtl: number): CacheStore => {
+  const { cache } = getConfig();
+
+  if (cache.backend === 'redis') {
+    logger.info('Using Redis cache backend');
+    return new RedisCacheStore({ url: cache.redisUrl!, prefix: cache.redisKeyPrefix, defaultTtl });
+  }
+
+  logger.info('Using in-memory cache backend');
+  return new MemoryCacheStore({
+    stdTTL: defaultTtl,
+    maxEntries: cache.maxEntries,
+    maxBytes: cache.maxBytes
+  });
+};
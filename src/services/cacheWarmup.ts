@@ -0,0 +1,150 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import axios from 'axios';
+import { Request } from 'express';
+import { getConfig } from '../config';
+import { logger } from './logger';
+import { parseCron } from '../utils/cron';
+
+export const DEFAULT_WARMUP_CONCURRENCY = 2;
+export const WARMUP_HEADER = 'X-Cache-Warmup';
+
+export type WarmupState = 'disabled' | 'pending' | 'running' | 'done';
+
+export interface WarmupStatus {
+  state: WarmupState;
+  // Paths in the manifest
+  total: number;
+  completed: number;
+  failed: number;
+  // Paths that failed in the current or last run, with the reason
+  failures: Array<{ path: string; error: string }>;
+  runs: number;
+  startedAt: string | null;
+  finishedAt: string | null;
+  schedule: string | null;
+}
+
+// Warm-up requests carry this per-process token so the rate limiter can let them through
+const warmupToken = crypto.randomBytes(16).toString('hex');
+
+const status: WarmupStatus = {
+  state: 'disabled',
+  total: 0,
+  completed: 0,
+  failed: 0,
+  failures: [],
+  runs: 0,
+  startedAt: null,
+  finishedAt: null,
+  schedule: null
+};
+
+let manifest: string[] = [];
+let running: Promise<void> | null = null;
+
+export const getWarmupStatus = (): WarmupStatus => ({ ...status, failures: [...status.failures] });
+
+export const isWarmupRequest = (req: Request): boolean => req.get(WARMUP_HEADER) === warmupToken;
+
+// CACHE_WARMUP_MANIFEST: JSON file with an array of GET paths on this proxy, e.g.
+// ["/api/contentful/entries?content_type=navigation", "/api/contentful/content/product/hero"]
+export const loadWarmupManifest = (file: string): string[] => {
+  const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (!Array.isArray(parsed)) {
+    throw new Error('expected a JSON array of paths');
+  }
+  return parsed.filter((entry: any) => {
+    const valid = typeof entry === 'string' && entry.startsWith('/');
+    if (!valid) {
+      logger.warn('Ignoring warm-up manifest entry that is not a path', { entry });
+    }
+    return valid;
+  });
+};
+
+// Request every manifest path through the proxy itself, a few at a time, so responses
+// are cached exactly as for visitors. Stale entries get revalidated along the way.
+const runWarmup = async (baseUrl: string, concurrency: number): Promise<void> => {
+  status.state = 'running';
+  status.total = manifest.length;
+  status.completed = 0;
+  status.failed = 0;
+  status.failures = [];
+  status.runs++;
+  status.startedAt = new Date().toISOString();
+  status.finishedAt = null;
+
+  const queue = [...manifest];
+  const worker = async () => {
+    for (let path = queue.shift(); path !== undefined; path = queue.shift()) {
+      try {
+        await axios.get(`${baseUrl}${path}`, {
+          headers: { [WARMUP_HEADER]: warmupToken },
+          timeout: 30000
+        });
+        status.completed++;
+      } catch (error: any) {
+        status.failed++;
+        status.failures.push({ path, error: error.response ? `HTTP ${error.response.status}` : error.message });
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, manifest.length) }, worker));
+
+  status.state = 'done';
+  status.finishedAt = new Date().toISOString();
+  logger.info('Cache warm-up finished', { warmed: status.completed, failed: status.failed });
+};
+
+// Start a run unless one is still going
+const triggerWarmup = (baseUrl: string, concurrency: number): void => {
+  if (running) {
+    return;
+  }
+  running = runWarmup(baseUrl, concurrency).finally(() => {
+    running = null;
+  });
+};
+
+// Check the schedule at the start of every minute
+const scheduleWarmup = (schedule: string, run: () => void): void => {
+  const matches = parseCron(schedule);
+  const tick = () => {
+    const now = new Date();
+    if (matches(now)) {
+      run();
+    }
+    setTimeout(tick, 60000 - (Date.now() % 60000)).unref();
+  };
+  setTimeout(tick, 60000 - (Date.now() % 60000)).unref();
+};
+
+// Warm the cache from CACHE_WARMUP_MANIFEST once the server listens on baseUrl, then on
+// the CACHE_WARMUP_SCHEDULE cron expression, with CACHE_WARMUP_CONCURRENCY parallel requests
+export const startCacheWarmup = (baseUrl: string): void => {
+  const { manifest: manifestFile, schedule, concurrency } = getConfig().warmup;
+  if (!manifestFile) {
+    return;
+  }
+
+  try {
+    manifest = loadWarmupManifest(manifestFile);
+  } catch (error: any) {
+    logger.error('Invalid CACHE_WARMUP_MANIFEST, cache warm-up disabled', { error: error.message });
+    return;
+  }
+
+  const run = () => triggerWarmup(baseUrl, concurrency);
+
+  status.state = 'pending';
+  status.total = manifest.length;
+
+  if (schedule) {
+    scheduleWarmup(schedule, run);
+    status.schedule = schedule;
+  }
+
+  logger.info('Warming cached queries', { paths: manifest.length, schedule: status.schedule || undefined });
+  run();
+};
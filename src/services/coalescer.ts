@@ -0,0 +1,35 @@
+// Concurrent requests for the same key share a single in-flight upstream call
+const inFlight = new Map<string, Promise<any>>();
+
+const stats = {
+  upstreamCalls: 0,
+  coalescedRequests: 0
+};
+
+export const isInFlight = (key: string): boolean => inFlight.has(key);
+
+// Run the fetcher for the key, or join the call already running for it
+export const coalesce = <T>(key: string, fetcher: () => Promise<T>): Promise<T> => {
+  const pending = inFlight.get(key);
+  if (pending) {
+    stats.coalescedRequests++;
+    return pending;
+  }
+
+  stats.upstreamCalls++;
+  const promise = fetcher().finally(() => {
+    inFlight.delete(key);
+  });
+  inFlight.set(key, promise);
+  return promise;
+};
+
+export const getCoalescingStats = () => {
+  const total = stats.upstreamCalls + stats.coalescedRequests;
+  return {
+    upstreamCalls: stats.upstreamCalls,
+    coalescedRequests: stats.coalescedRequests,
+    coalescedRatio: total > 0 ? stats.coalescedRequests / total : 0,
+    inFlight: inFlight.size
+  };
+};
@@ -0,0 +1,61 @@
+import { ResponseOption } from './responseOptions';
+import { ResourceDefinition } from './resourceProxy';
+import { queryMirror } from './localQuery';
+
+export interface ContentRouteConfig {
+  // Contentful content type ID
+  contentType: string;
+  // URL segment in /content/:route/:slug (default: the content type ID)
+  route?: string;
+  // Field the :slug param is matched against (default: slug)
+  slugField?: string;
+  // Fields returned, e.g. ['fields.title', 'fields.slug'] (default: all)
+  select?: string[];
+  // Link depth included in the response (default: 1)
+  include?: number;
+  // Locale to fetch (default: the space's default locale)
+  locale?: string;
+}
+
+export const DEFAULT_SLUG_FIELD = 'slug';
+export const DEFAULT_CONTENT_INCLUDE = 1;
+
+export const DEFAULT_CONTENT_ROUTES: ContentRouteConfig[] = [
+  { contentType: 'product', include: 2 },
+  { contentType: 'soundSample' }
+];
+
+// Allowed characters of the :route segment
+export const ROUTE_SEGMENT_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// Resource definition for /content/:route/:slug. The Contentful query is fixed by the
+// config; clients can only add the proxy's output options.
+export const contentRouteDefinition = (config: ContentRouteConfig, options: ResponseOption[]): ResourceDefinition => {
+  const slugField = config.slugField || DEFAULT_SLUG_FIELD;
+
+  return {
+    path: `/content/${config.route || config.contentType}/:slug`,
+    upstreamPath: '/entries',
+    description: config.contentType,
+    idParam: 'slug',
+    options,
+    notFoundWhenEmpty: true,
+    localQuery: (upstream, query) => queryMirror(upstream, 'entries', query),
+    query: req => {
+      const query: Record<string, any> = {
+        content_type: config.contentType,
+        [`fields.${slugField}`]: req.params.slug,
+        include: String(config.include ?? DEFAULT_CONTENT_INCLUDE),
+        limit: '1'
+      };
+      if (config.select && config.select.length > 0) {
+        // sys is always needed for link resolution and validators
+        query.select = ['sys', ...config.select.filter(field => field !== 'sys')].join(',');
+      }
+      if (config.locale) {
+        query.locale = config.locale;
+      }
+      return query;
+    }
+  };
+};
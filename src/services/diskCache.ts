@@ -0,0 +1,161 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+export interface DiskCacheEntry {
+  key: string;
+  size: number;
+  contentType: string;
+  storedAt: number;
+}
+
+export interface DiskCacheOptions {
+  directory: string;
+  // Total bytes kept on disk before least recently used files are evicted
+  maxBytes: number;
+}
+
+// tempPath() names files <hash>.<pid>.<time>.tmp
+const TEMP_FILE_PATTERN = /\.(\d+)\.\d+\.tmp$/;
+
+// Whether the process that wrote a temp file is gone. Nothing is downloading in this
+// process while the index loads, so its own PID counts as gone too (PIDs repeat across
+// container restarts); other live processes may share the directory.
+const isOrphanedTempFile = (file: string): boolean => {
+  const match = TEMP_FILE_PATTERN.exec(file);
+  const pid = match ? Number(match[1]) : process.pid;
+  if (pid === process.pid) {
+    return true;
+  }
+  try {
+    process.kill(pid, 0);
+    return false;
+  } catch (error: any) {
+    return error.code === 'ESRCH';
+  }
+};
+
+// Size-bounded file cache with least-recently-used eviction. Each entry is stored as
+// a data file plus a small JSON metadata file, so the index survives restarts.
+export class DiskCache {
+  private directory: string;
+  private maxBytes: number;
+  // Map iteration order doubles as the LRU order: oldest first
+  private entries = new Map<string, DiskCacheEntry>();
+  private totalBytes = 0;
+
+  constructor(options: DiskCacheOptions) {
+    this.directory = options.directory;
+    this.maxBytes = options.maxBytes;
+    fs.mkdirSync(this.directory, { recursive: true });
+    this.loadIndex();
+  }
+
+  private fileName(key: string): string {
+    return crypto.createHash('sha1').update(key).digest('hex');
+  }
+
+  private dataPath(key: string): string {
+    return path.join(this.directory, this.fileName(key));
+  }
+
+  private metaPath(key: string): string {
+    return `${this.dataPath(key)}.json`;
+  }
+
+  // Rebuild the index from metadata files left by a previous process, and remove the
+  // temp files of downloads it didn't finish
+  private loadIndex(): void {
+    const loaded: DiskCacheEntry[] = [];
+    for (const file of fs.readdirSync(this.directory)) {
+      if (file.endsWith('.tmp')) {
+        if (isOrphanedTempFile(file)) {
+          fs.rmSync(path.join(this.directory, file), { force: true });
+        }
+        continue;
+      }
+      if (!file.endsWith('.json')) {
+        continue;
+      }
+      try {
+        const entry: DiskCacheEntry = JSON.parse(fs.readFileSync(path.join(this.directory, file), 'utf8'));
+        const stat = fs.statSync(this.dataPath(entry.key));
+        loaded.push({ ...entry, storedAt: stat.atimeMs || entry.storedAt });
+      } catch (error) {
+        // Orphaned or corrupt metadata, drop it
+        fs.rmSync(path.join(this.directory, file), { force: true });
+      }
+    }
+
+    loaded.sort((a, b) => a.storedAt - b.storedAt);
+    for (const entry of loaded) {
+      this.entries.set(entry.key, entry);
+      this.totalBytes += entry.size;
+    }
+    this.evict();
+  }
+
+  get size(): number {
+    return this.totalBytes;
+  }
+
+  get count(): number {
+    return this.entries.size;
+  }
+
+  // Look up an entry and mark it as recently used
+  get(key: string): (DiskCacheEntry & { path: string }) | null {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return { ...entry, path: this.dataPath(key) };
+  }
+
+  // Temporary file that a download can be written to before commit()
+  tempPath(key: string): string {
+    return `${this.dataPath(key)}.${process.pid}.${Date.now()}.tmp`;
+  }
+
+  // Move a fully written temp file into the cache
+  commit(key: string, tempFile: string, contentType: string): void {
+    const size = fs.statSync(tempFile).size;
+    if (size > this.maxBytes) {
+      fs.rmSync(tempFile, { force: true });
+      return;
+    }
+
+    this.delete(key);
+    fs.renameSync(tempFile, this.dataPath(key));
+
+    const entry: DiskCacheEntry = { key, size, contentType, storedAt: Date.now() };
+    fs.writeFileSync(this.metaPath(key), JSON.stringify(entry));
+    this.entries.set(key, entry);
+    this.totalBytes += size;
+    this.evict();
+  }
+
+  delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.totalBytes -= entry.size;
+    fs.rmSync(this.dataPath(key), { force: true });
+    fs.rmSync(this.metaPath(key), { force: true });
+  }
+
+  private evict(): void {
+    for (const key of this.entries.keys()) {
+      if (this.totalBytes <= this.maxBytes) {
+        break;
+      }
+      this.delete(key);
+    }
+  }
+}
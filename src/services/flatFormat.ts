@@ -0,0 +1,159 @@
+import { getConfig } from '../config';
+import { ResponseOption } from './responseOptions';
+
+export const DEFAULT_FALLBACK_LOCALE = 'en-US';
+
+export interface FlatAssetFile {
+  url: string;
+  width?: number;
+  height?: number;
+  contentType?: string;
+}
+
+interface LocaleSelection {
+  // Fields are locale maps (the request used locale=*)
+  localized: boolean;
+  locale?: string;
+  fallbackLocale: string;
+}
+
+// Pick a value from a locale map: requested locale, then fallback locale, then any locale
+const selectLocale = (value: any, selection: LocaleSelection): any => {
+  if (!selection.localized || !value || typeof value !== 'object' || Array.isArray(value)) {
+    return value;
+  }
+
+  if (selection.locale && selection.locale in value) {
+    return value[selection.locale];
+  }
+  if (selection.fallbackLocale in value) {
+    return value[selection.fallbackLocale];
+  }
+  const locales = Object.keys(value);
+  return locales.length > 0 ? value[locales[0]] : undefined;
+};
+
+const flattenFile = (file: any): FlatAssetFile | null => {
+  if (!file || typeof file.url !== 'string') {
+    return null;
+  }
+
+  return {
+    url: file.url,
+    width: file.details?.image?.width,
+    height: file.details?.image?.height,
+    contentType: file.contentType
+  };
+};
+
+const isItem = (value: any): boolean => {
+  return !!value && typeof value === 'object' && (value.sys?.type === 'Entry' || value.sys?.type === 'Asset');
+};
+
+// Flatten nested items (e.g. links inlined by ?resolve=true) wherever they appear
+const flattenValue = (value: any, selection: LocaleSelection): any => {
+  if (Array.isArray(value)) {
+    return value.map(item => flattenValue(item, selection));
+  }
+  if (isItem(value)) {
+    return flattenItem(value, selection);
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const flattened: any = {};
+  for (const [key, child] of Object.entries(value)) {
+    flattened[key] = flattenValue(child, selection);
+  }
+  return flattened;
+};
+
+// Reduce an entry or asset to { sys: { id, contentType, updatedAt }, fields }
+export const flattenItem = (item: any, selection: LocaleSelection): any => {
+  const sys: any = { id: item.sys.id };
+  if (item.sys.contentType?.sys?.id) {
+    sys.contentType = item.sys.contentType.sys.id;
+  }
+  if (item.sys.updatedAt) {
+    sys.updatedAt = item.sys.updatedAt;
+  }
+
+  const fields: any = {};
+  for (const [name, value] of Object.entries(item.fields || {})) {
+    const selected = selectLocale(value, selection);
+    fields[name] = item.sys.type === 'Asset' && name === 'file'
+      ? flattenFile(selected)
+      : flattenValue(selected, selection);
+  }
+
+  return { sys, fields };
+};
+
+// Flatten a single item or a collection response, including its includes
+export const flattenResponse = (data: any, selection: LocaleSelection): any => {
+  if (isItem(data)) {
+    return flattenItem(data, selection);
+  }
+  if (!data || !Array.isArray(data.items)) {
+    return data;
+  }
+
+  const flattened: any = {
+    total: data.total,
+    skip: data.skip,
+    limit: data.limit,
+    items: data.items.map((item: any) => flattenValue(item, selection))
+  };
+
+  if (data.includes) {
+    flattened.includes = {};
+    for (const [type, items] of Object.entries(data.includes)) {
+      flattened.includes[type] = Array.isArray(items) ? items.map(item => flattenValue(item, selection)) : items;
+    }
+  }
+  if (data.errors) {
+    flattened.errors = data.errors;
+  }
+  return flattened;
+};
+
+const readSelection = (query: Record<string, any>): LocaleSelection => ({
+  localized: query.locale === '*',
+  locale: typeof query.selectLocale === 'string' ? query.selectLocale : undefined,
+  fallbackLocale: typeof query.fallbackLocale === 'string'
+    ? query.fallbackLocale
+    : getConfig().contentful.defaultLocale
+});
+
+// ?format=flat on entry and asset routes, with ?selectLocale=&fallbackLocale= for locale=* responses
+export const flatFormatOption: ResponseOption = {
+  name: 'format',
+  params: ['format', 'selectLocale', 'fallbackLocale'],
+  isRequested: query => query.format === 'flat',
+  validate: query => {
+    if (query.format !== undefined && query.format !== 'flat' && query.format !== 'raw') {
+      return 'Parameter "format" must be "flat" or "raw"';
+    }
+    const { locales } = getConfig().contentful;
+    for (const param of ['selectLocale', 'fallbackLocale']) {
+      if (query[param] !== undefined && (typeof query[param] !== 'string' || !locales.includes(query[param]))) {
+        return `Parameter "${param}" must be one of the configured locales (${locales.join(', ')})`;
+      }
+    }
+    return null;
+  },
+  // Locale selection only applies to locale=* responses; elsewhere it doesn't change the output
+  cacheKeyParams: query => {
+    const selection = readSelection(query);
+    if (!selection.localized) {
+      return { format: 'flat' };
+    }
+    return {
+      format: 'flat',
+      fallbackLocale: selection.fallbackLocale,
+      ...(selection.locale ? { selectLocale: selection.locale } : {})
+    };
+  },
+  transform: (data, query) => flattenResponse(data, readSelection(query))
+};
@@ -0,0 +1,88 @@
+import axios from 'axios';
+import { getConfig } from '../config';
+import { CacheStore } from './cacheStore';
+import { ContentfulUpstream, listUpstreams } from './upstreams';
+
+export type DependencyState = 'up' | 'down';
+
+export interface DependencyStatus {
+  // e.g. contentful:space/master or cache:redis
+  name: string;
+  state: DependencyState;
+  latencyMs: number;
+  error: string | null;
+}
+
+export interface ReadinessReport {
+  ready: boolean;
+  checkedAt: string;
+  dependencies: DependencyStatus[];
+}
+
+let lastReport: { report: ReadinessReport; expiresAt: number } | null = null;
+let pending: Promise<ReadinessReport> | null = null;
+
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number): Promise<T> => {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+const probe = async (name: string, check: () => Promise<unknown>, timeoutMs: number): Promise<DependencyStatus> => {
+  const startedAt = Date.now();
+  try {
+    await withTimeout(check(), timeoutMs);
+    return { name, state: 'up', latencyMs: Date.now() - startedAt, error: null };
+  } catch (error: any) {
+    const message = error.response ? `HTTP ${error.response.status}` : error.message;
+    return { name, state: 'down', latencyMs: Date.now() - startedAt, error: message };
+  }
+};
+
+// A cheap authenticated call to the space/environment. It bypasses the client's retries and
+// circuit breaker so that the probe reports the current state instead of waiting it out.
+const probeUpstream = (upstream: ContentfulUpstream, timeoutMs: number) => {
+  const { baseURL, headers } = upstream.client.defaults;
+  return axios.get(`${baseURL}/locales`, {
+    headers: { Authorization: String(headers.Authorization) },
+    params: { limit: 1 },
+    timeout: timeoutMs
+  });
+};
+
+const runProbes = async (cache: CacheStore): Promise<ReadinessReport> => {
+  const { probeTimeoutMs } = getConfig().health;
+  const dependencies = await Promise.all([
+    ...listUpstreams().map(upstream =>
+      probe(`contentful:${upstream.key}`, () => probeUpstream(upstream, probeTimeoutMs), probeTimeoutMs)
+    ),
+    probe(`cache:${cache.backend}`, () => cache.ping(), probeTimeoutMs)
+  ]);
+
+  return {
+    ready: dependencies.every(dependency => dependency.state === 'up'),
+    checkedAt: new Date().toISOString(),
+    dependencies
+  };
+};
+
+// Readiness of every dependency. Results are reused for HEALTH_PROBE_TTL seconds so that
+// frequent health checks don't use up Contentful's rate limit; concurrent checks share a run.
+export const checkReadiness = (cache: CacheStore): Promise<ReadinessReport> => {
+  if (lastReport && lastReport.expiresAt > Date.now()) {
+    return Promise.resolve(lastReport.report);
+  }
+  if (!pending) {
+    pending = runProbes(cache)
+      .then(report => {
+        lastReport = { report, expiresAt: Date.now() + getConfig().health.probeTtl * 1000 };
+        return report;
+      })
+      .finally(() => {
+        pending = null;
+      });
+  }
+  return pending;
+};
@@ -0,0 +1,56 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+
+export interface ResponseValidators {
+  etag: string;
+  // HTTP date of the newest sys.updatedAt in the payload
+  lastModified: string | null;
+}
+
+// Newest sys.updatedAt anywhere in the payload (items, includes, single entries)
+const newestUpdatedAt = (data: any, newest: number = 0): number => {
+  if (data === null || typeof data !== 'object') {
+    return newest;
+  }
+
+  if (Array.isArray(data)) {
+    return data.reduce((latest, item) => newestUpdatedAt(item, latest), newest);
+  }
+
+  let latest = newest;
+  const updatedAt = data.sys && typeof data.sys.updatedAt === 'string' ? Date.parse(data.sys.updatedAt) : NaN;
+  if (!Number.isNaN(updatedAt) && updatedAt > latest) {
+    latest = updatedAt;
+  }
+
+  for (const value of Object.values(data)) {
+    latest = newestUpdatedAt(value, latest);
+  }
+  return latest;
+};
+
+// Strong ETag over the serialized body plus Last-Modified from the content itself
+export const computeValidators = (data: any): ResponseValidators => {
+  const hash = crypto.createHash('sha1').update(JSON.stringify(data) ?? '').digest('base64url');
+  const updatedAt = newestUpdatedAt(data);
+
+  return {
+    etag: `"${hash}"`,
+    lastModified: updatedAt > 0 ? new Date(updatedAt).toUTCString() : null
+  };
+};
+
+// Send a JSON body with validators, answering 304 when the client's copy is current.
+// req.fresh evaluates If-None-Match / If-Modified-Since against the headers set here.
+export const sendWithValidators = (req: Request, res: Response, data: any, validators: ResponseValidators) => {
+  res.set('ETag', validators.etag);
+  if (validators.lastModified) {
+    res.set('Last-Modified', validators.lastModified);
+  }
+
+  if (req.fresh) {
+    return res.status(304).end();
+  }
+
+  return res.json(data);
+};
@@ -0,0 +1,110 @@
+import { CacheStore } from './cacheStore';
+import { parseCacheKey, ParsedCacheKey } from './cacheKeys';
+import { getDefaultUpstream } from './upstreams';
+
+export type InvalidationEntityType = 'Entry' | 'Asset' | 'ContentType';
+
+export interface InvalidationTarget {
+  entityType: InvalidationEntityType;
+  id: string;
+  spaceId?: string;
+  environment?: string;
+  // Content type of the entry, used to find listing queries it may now appear in
+  contentTypeId?: string;
+}
+
+// Collection route that lists items of each entity type
+const COLLECTION_RESOURCES: Record<InvalidationEntityType, string> = {
+  Entry: 'entries',
+  Asset: 'assets',
+  ContentType: 'content_types'
+};
+
+// IDs of every object with a sys.id in the payload: items, resolved includes and links.
+// Stored in the cache's reference index when the payload is written.
+export const collectReferencedIds = (data: unknown, ids: Set<string> = new Set()): Set<string> => {
+  if (data === null || typeof data !== 'object') {
+    return ids;
+  }
+
+  if (Array.isArray(data)) {
+    data.forEach(item => collectReferencedIds(item, ids));
+    return ids;
+  }
+
+  const { sys } = data as { sys?: { id?: unknown } };
+  if (sys && typeof sys.id === 'string') {
+    ids.add(sys.id);
+  }
+
+  Object.values(data).forEach(value => collectReferencedIds(value, ids));
+  return ids;
+};
+
+// Keys from the short routes belong to the default upstream
+const belongsToUpstream = (parsed: ParsedCacheKey, target: InvalidationTarget): boolean => {
+  if (!target.spaceId) {
+    return true;
+  }
+
+  let spaceId = parsed.spaceId;
+  let environment = parsed.environment;
+  if (!spaceId) {
+    const defaultUpstream = getDefaultUpstream();
+    spaceId = defaultUpstream?.spaceId;
+    environment = defaultUpstream?.environment;
+  }
+
+  return spaceId === target.spaceId && (!target.environment || environment === target.environment);
+};
+
+// GraphQL responses can't be matched to the items they select, so any change in their space evicts them
+const GRAPHQL_RESOURCE = 'graphql';
+
+// Listing queries that could start or stop including the item
+const isAffectedCollection = (parsed: ParsedCacheKey, target: InvalidationTarget): boolean => {
+  if (parsed.resource === GRAPHQL_RESOURCE) {
+    return true;
+  }
+
+  if (parsed.itemId || parsed.resource !== COLLECTION_RESOURCES[target.entityType]) {
+    return false;
+  }
+
+  if (target.entityType !== 'Entry') {
+    return true;
+  }
+
+  const contentType = parsed.query.get('content_type');
+  return !contentType || !target.contentTypeId || contentType === target.contentTypeId;
+};
+
+// Find cache keys that may hold the given item. Collections are matched by key; other
+// keys by the reference index, so no cached value has to be read.
+export const findKeysForItem = async (cache: CacheStore, target: InvalidationTarget): Promise<string[]> => {
+  const matches: string[] = [];
+  const referencing = new Set(await cache.getReferencingKeys(target.id));
+
+  for (const key of await cache.keys()) {
+    const parsed = parseCacheKey(key);
+    if (!parsed || !belongsToUpstream(parsed, target)) {
+      continue;
+    }
+
+    const isItemKey = parsed.itemId === target.id && parsed.resource === COLLECTION_RESOURCES[target.entityType];
+    if (isItemKey || isAffectedCollection(parsed, target) || referencing.has(key)) {
+      matches.push(key);
+    }
+  }
+
+  return matches;
+};
+
+// Evict every key that may hold the given item and return the evicted keys
+export const invalidateItem = async (cache: CacheStore, target: InvalidationTarget): Promise<string[]> => {
+  const keys = await findKeysForItem(cache, target);
+  if (keys.length > 0) {
+    await cache.del(keys);
+  }
+  return keys;
+};
@@ -0,0 +1,122 @@
+import { ResponseOption, isBooleanParam, isTruthyParam } from './responseOptions';
+
+export const DEFAULT_RESOLVE_DEPTH = 2;
+// Contentful's include parameter is capped at 10 levels
+export const MAX_RESOLVE_DEPTH = 10;
+
+// Why a link was left in place instead of being replaced by its target
+export type UnresolvedReason = 'missing' | 'circular' | 'depth';
+
+const isLink = (value: any): boolean => {
+  return !!value && typeof value === 'object' && value.sys?.type === 'Link'
+    && (value.sys.linkType === 'Entry' || value.sys.linkType === 'Asset');
+};
+
+export const linkKey = (linkType: string, id: string): string => `${linkType}:${id}`;
+
+// Index the items and includes of a collection response by link key
+export const buildLookup = (data: any): Map<string, any> => {
+  const lookup = new Map<string, any>();
+  const add = (item: any) => {
+    if (item?.sys?.id && (item.sys.type === 'Entry' || item.sys.type === 'Asset')) {
+      lookup.set(linkKey(item.sys.type, item.sys.id), item);
+    }
+  };
+
+  (data.items || []).forEach(add);
+  (data.includes?.Entry || []).forEach(add);
+  (data.includes?.Asset || []).forEach(add);
+  return lookup;
+};
+
+// Replace links inside a value. `ancestors` holds the items on the current path,
+// so a link back to one of them is a cycle; shared references resolve normally.
+const resolveValue = (value: any, depth: number, ancestors: Set<string>, lookup: Map<string, any>): any => {
+  if (Array.isArray(value)) {
+    return value.map(item => resolveValue(item, depth, ancestors, lookup));
+  }
+
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  if (isLink(value)) {
+    const key = linkKey(value.sys.linkType, value.sys.id);
+    const target = lookup.get(key);
+    if (!target) {
+      return { ...value, unresolved: 'missing' as UnresolvedReason };
+    }
+    if (ancestors.has(key)) {
+      return { ...value, unresolved: 'circular' as UnresolvedReason };
+    }
+    if (depth <= 0) {
+      return { ...value, unresolved: 'depth' as UnresolvedReason };
+    }
+    return resolveItem(target, depth - 1, new Set(ancestors).add(key), lookup);
+  }
+
+  const resolved: any = {};
+  for (const [key, child] of Object.entries(value)) {
+    resolved[key] = resolveValue(child, depth, ancestors, lookup);
+  }
+  return resolved;
+};
+
+// Only fields are walked: sys holds links (contentType, space, environment) that stay as they are
+const resolveItem = (item: any, depth: number, ancestors: Set<string>, lookup: Map<string, any>): any => {
+  if (!item.fields) {
+    return item;
+  }
+  return { ...item, fields: resolveValue(item.fields, depth, ancestors, lookup) };
+};
+
+// Inline linked entries and assets of a collection response up to `depth` levels.
+// Assets come from includes, which have already been through transformContentfulUrls().
+export const resolveLinks = (data: any, depth: number = DEFAULT_RESOLVE_DEPTH): any => {
+  if (!data || !Array.isArray(data.items)) {
+    return data;
+  }
+
+  const lookup = buildLookup(data);
+  const { includes, ...rest } = data;
+
+  return {
+    ...rest,
+    items: data.items.map((item: any) => {
+      const key = item?.sys ? linkKey(item.sys.type, item.sys.id) : '';
+      return resolveItem(item, depth, new Set([key]), lookup);
+    })
+  };
+};
+
+const readDepth = (query: Record<string, any>): number => {
+  return query.depth === undefined ? DEFAULT_RESOLVE_DEPTH : Number(query.depth);
+};
+
+// ?resolve=true&depth=N on entry collection routes
+export const resolveLinksOption: ResponseOption = {
+  name: 'resolve',
+  params: ['resolve', 'depth'],
+  isRequested: query => isTruthyParam(query.resolve),
+  validate: query => {
+    if (!isBooleanParam(query.resolve)) {
+      return 'Parameter "resolve" must be true or false';
+    }
+    const depth = readDepth(query);
+    if (!Number.isInteger(depth) || depth < 0 || depth > MAX_RESOLVE_DEPTH) {
+      return `Parameter "depth" must be an integer between 0 and ${MAX_RESOLVE_DEPTH}`;
+    }
+    return null;
+  },
+  // depth=02 and the default depth share a key with their plain form
+  cacheKeyParams: query => ({ resolve: 'true', depth: String(readDepth(query)) }),
+  // Make sure Contentful returns enough levels of includes to resolve
+  prepareQuery: (upstreamQuery, query) => {
+    const depth = readDepth(query);
+    const include = Number(upstreamQuery.include);
+    if (!Number.isInteger(include) || include < depth) {
+      upstreamQuery.include = String(depth);
+    }
+  },
+  transform: (data, query) => resolveLinks(data, readDepth(query))
+};
@@ -0,0 +1,296 @@
+import { ContentfulUpstream } from './upstreams';
+import { MirrorLocale, getSyncMirror } from './syncMirror';
+
+export type LocalResource = 'entries' | 'assets';
+
+// Contentful's defaults and maximums for collection queries
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+const DEFAULT_INCLUDE = 1;
+const MAX_INCLUDE = 10;
+
+interface ItemFilter {
+  // Matches an item's localized fields and sys
+  (item: any, fields: Record<string, any>): boolean;
+}
+
+type Comparator = (a: LocalizedItem, b: LocalizedItem) => number;
+
+interface LocalizedItem {
+  raw: any;
+  item: any;
+}
+
+interface PlannedQuery {
+  filters: ItemFilter[];
+  order: Comparator[];
+  limit: number;
+  skip: number;
+  include: number;
+  // Locale code, or '*' for locale maps
+  locale: string;
+  // Field names kept by `select`, or null for all fields
+  select: string[] | null;
+}
+
+const isInteger = (value: string): boolean => /^\d+$/.test(value);
+
+// Locale chain for a code: the locale itself, then its fallbacks
+const localeChain = (code: string, locales: MirrorLocale[]): string[] => {
+  const chain: string[] = [];
+  let current = locales.find(locale => locale.code === code);
+  while (current && !chain.includes(current.code)) {
+    chain.push(current.code);
+    const fallback = current.fallbackCode;
+    current = fallback ? locales.find(locale => locale.code === fallback) : undefined;
+  }
+  return chain;
+};
+
+// Single-locale view of a Sync API item, as the Delivery API returns it for ?locale=
+const localizeItem = (item: any, locale: string, locales: MirrorLocale[]): any => {
+  if (locale === '*') {
+    return item;
+  }
+
+  const chain = localeChain(locale, locales);
+  // Sync API fields hold one value per locale code
+  const itemFields: Record<string, Record<string, unknown> | null> = item.fields || {};
+  const fields: Record<string, any> = {};
+  for (const [name, values] of Object.entries(itemFields)) {
+    const code = chain.find(candidate => values?.[candidate] !== undefined);
+    if (code) {
+      fields[name] = values?.[code];
+    }
+  }
+  return { sys: { ...item.sys, locale }, fields };
+};
+
+const fieldValueMatches = (value: any, expected: string): boolean => {
+  if (Array.isArray(value)) {
+    return value.some(item => fieldValueMatches(item, expected));
+  }
+  if (value && typeof value === 'object') {
+    return false;
+  }
+  return value !== undefined && String(value) === expected;
+};
+
+const compareValues = (a: any, b: any): number => {
+  if (a === undefined || a === null) {
+    return b === undefined || b === null ? 0 : 1;
+  }
+  if (b === undefined || b === null) {
+    return -1;
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b));
+};
+
+const SYS_ORDER_FIELDS = ['id', 'createdAt', 'updatedAt'];
+
+// Comparator for one `order` item, or null when the engine can't sort by it
+const planOrder = (item: string, typed: boolean): Comparator | null => {
+  const descending = item.startsWith('-');
+  const [scope, name, ...rest] = item.replace(/^-/, '').split('.');
+  if (rest.length > 0 || !name) {
+    return null;
+  }
+  if (scope === 'sys' && SYS_ORDER_FIELDS.includes(name)) {
+    return (a, b) => (descending ? -1 : 1) * compareValues(a.raw.sys[name], b.raw.sys[name]);
+  }
+  if (scope === 'fields' && typed) {
+    return (a, b) => (descending ? -1 : 1) * compareValues(a.item.fields[name], b.item.fields[name]);
+  }
+  return null;
+};
+
+// Translate a normalized query into filters and ordering, or null when it uses
+// anything the local engine doesn't support
+const planQuery = (resource: LocalResource, query: Record<string, string>, locales: MirrorLocale[]): PlannedQuery | null => {
+  const defaultLocale = locales.find(locale => locale.default)?.code;
+  // The Delivery API rejects entry queries on fields without a content_type; those go
+  // upstream so the answer doesn't depend on whether the mirror is ready
+  const typed = resource === 'assets' || query.content_type !== undefined;
+  const plan: PlannedQuery = {
+    filters: [],
+    order: [],
+    limit: DEFAULT_LIMIT,
+    skip: 0,
+    include: DEFAULT_INCLUDE,
+    locale: query.locale || defaultLocale || '',
+    select: null
+  };
+
+  if (plan.locale !== '*' && !locales.some(locale => locale.code === plan.locale)) {
+    return null;
+  }
+
+  for (const [name, value] of Object.entries(query)) {
+    if (name === 'content_type' && resource === 'entries') {
+      plan.filters.push(item => item.sys.contentType?.sys?.id === value);
+    } else if (name === 'sys.id') {
+      plan.filters.push(item => item.sys.id === value);
+    } else if (name === 'sys.id[in]') {
+      const ids = value.split(',');
+      plan.filters.push(item => ids.includes(item.sys.id));
+    } else if (name === 'limit' && isInteger(value) && Number(value) <= MAX_LIMIT) {
+      plan.limit = Number(value);
+    } else if (name === 'skip' && isInteger(value)) {
+      plan.skip = Number(value);
+    } else if (name === 'include' && isInteger(value) && Number(value) <= MAX_INCLUDE) {
+      plan.include = Number(value);
+    } else if (name === 'locale') {
+      continue;
+    } else if (name === 'select') {
+      // sys is always returned; only whole fields can be selected
+      const paths = value.split(',').filter(path => path !== 'sys');
+      if (paths.includes('fields')) {
+        continue;
+      }
+      if (!typed || !paths.every(path => /^fields\.\w+$/.test(path))) {
+        return null;
+      }
+      plan.select = paths.map(path => path.slice('fields.'.length));
+    } else if (name === 'order') {
+      for (const item of value.split(',')) {
+        const comparator = planOrder(item, typed);
+        if (!comparator) {
+          return null;
+        }
+        plan.order.push(comparator);
+      }
+    } else if (/^fields\.\w+$/.test(name) && plan.locale !== '*' && typed) {
+      // Equality on a localized field value
+      const field = name.slice('fields.'.length);
+      plan.filters.push((item, fields) => fieldValueMatches(fields[field], value));
+    } else if (/^fields\.\w+\.sys\.id$/.test(name) && plan.locale !== '*' && typed) {
+      // Equality on the ID of a linked item
+      const field = name.split('.')[1];
+      plan.filters.push((item, fields) => {
+        const links = Array.isArray(fields[field]) ? fields[field] : [fields[field]];
+        return links.some((link: any) => link?.sys?.id === value);
+      });
+    } else {
+      return null;
+    }
+  }
+
+  // Stable default order: most recently updated first, like Contentful
+  plan.order.push((a, b) => compareValues(b.raw.sys.updatedAt, a.raw.sys.updatedAt));
+  plan.order.push((a, b) => compareValues(a.raw.sys.id, b.raw.sys.id));
+  return plan;
+};
+
+// Links anywhere in a value
+const collectLinks = (value: any, links: Array<{ linkType: string; id: string }>): void => {
+  if (!value || typeof value !== 'object') {
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach(item => collectLinks(item, links));
+    return;
+  }
+  if (value.sys?.type === 'Link' && (value.sys.linkType === 'Entry' || value.sys.linkType === 'Asset')) {
+    links.push({ linkType: value.sys.linkType, id: value.sys.id });
+    return;
+  }
+  Object.values(value).forEach(child => collectLinks(child, links));
+};
+
+// Linked entries and assets up to `depth` levels, like the Delivery API's includes
+const buildIncludes = (
+  items: any[],
+  depth: number,
+  lookup: (linkType: 'Entry' | 'Asset', id: string) => any,
+  localize: (item: any) => any
+): { Entry?: any[]; Asset?: any[] } | null => {
+  const seen = new Set(items.map(item => `${item.sys.type}:${item.sys.id}`));
+  const included: { Entry: any[]; Asset: any[] } = { Entry: [], Asset: [] };
+  let level = items;
+
+  for (let current = 0; current < depth && level.length > 0; current++) {
+    const links: Array<{ linkType: string; id: string }> = [];
+    level.forEach(item => collectLinks(item.fields, links));
+
+    const next: any[] = [];
+    for (const link of links) {
+      const key = `${link.linkType}:${link.id}`;
+      const target = lookup(link.linkType as 'Entry' | 'Asset', link.id);
+      if (!target || seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+      const localized = localize(target);
+      included[link.linkType as 'Entry' | 'Asset'].push(localized);
+      next.push(localized);
+    }
+    level = next;
+  }
+
+  const includes: { Entry?: any[]; Asset?: any[] } = {};
+  if (included.Entry.length > 0) {
+    includes.Entry = included.Entry;
+  }
+  if (included.Asset.length > 0) {
+    includes.Asset = included.Asset;
+  }
+  return Object.keys(includes).length > 0 ? includes : null;
+};
+
+// Answer a collection query from the sync mirror. Returns null when the mirror doesn't
+// cover the upstream, isn't ready, or the query needs the Delivery API.
+export const queryMirror = (upstream: ContentfulUpstream, resource: LocalResource, query: Record<string, string>): any | null => {
+  const mirror = getSyncMirror();
+  if (!mirror || !mirror.ready || mirror.upstream.key !== upstream.key) {
+    return null;
+  }
+
+  const locales = mirror.getLocales();
+  const plan = planQuery(resource, query, locales);
+  if (!plan) {
+    return null;
+  }
+
+  const localize = (item: any) => localizeItem(item, plan.locale, locales);
+
+  const matches: LocalizedItem[] = [];
+  for (const raw of resource === 'entries' ? mirror.getEntries() : mirror.getAssets()) {
+    const item = localize(raw);
+    if (plan.filters.every(filter => filter(raw, item.fields))) {
+      matches.push({ raw, item });
+    }
+  }
+  matches.sort((a, b) => {
+    for (const comparator of plan.order) {
+      const result = comparator(a, b);
+      if (result !== 0) {
+        return result;
+      }
+    }
+    return 0;
+  });
+
+  const items = matches.slice(plan.skip, plan.skip + plan.limit).map(match => match.item);
+  const selected = plan.select
+    ? items.map(item => ({
+      sys: item.sys,
+      fields: Object.fromEntries(Object.entries(item.fields).filter(([name]) => plan.select!.includes(name)))
+    }))
+    : items;
+  const response: any = {
+    sys: { type: 'Array' },
+    total: matches.length,
+    skip: plan.skip,
+    limit: plan.limit,
+    items: selected
+  };
+
+  const includes = buildIncludes(selected, plan.include, (linkType, id) => mirror.getItem(linkType, id), localize);
+  if (includes) {
+    response.includes = includes;
+  }
+  return response;
+};
@@ -0,0 +1,64 @@
+import { getRequestId } from './requestContext';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+// json: one object per line for log drains; pretty: readable lines for development
+export type LogFormat = 'json' | 'pretty';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+export const LOG_FORMATS: LogFormat[] = ['json', 'pretty'];
+
+export type LogFields = Record<string, unknown>;
+
+export interface LoggerOptions {
+  level: LogLevel;
+  format: LogFormat;
+}
+
+let options: LoggerOptions = { level: 'info', format: 'pretty' };
+
+// Applied once the configuration is loaded (LOG_LEVEL, LOG_FORMAT)
+export const configureLogger = (next: LoggerOptions): void => {
+  options = next;
+};
+
+const formatValue = (value: unknown): string => {
+  if (typeof value === 'string') {
+    return /[\s"=]/.test(value) ? JSON.stringify(value) : value;
+  }
+  return JSON.stringify(value) ?? String(value);
+};
+
+const formatPretty = (entry: LogFields & { time: string; level: LogLevel; msg: string }): string => {
+  const { time, level, msg, requestId, ...fields } = entry;
+  const context = requestId ? ` [${requestId}]` : '';
+  const details = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}=${formatValue(value)}`)
+    .join('');
+  return `${time} ${level.toUpperCase().padEnd(5)}${context} ${msg}${details}`;
+};
+
+// Every line carries the ID of the request it was logged for, when there is one
+const write = (level: LogLevel, message: string, fields: LogFields = {}): void => {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(options.level)) {
+    return;
+  }
+
+  const requestId = getRequestId();
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    msg: message,
+    ...(requestId ? { requestId } : {}),
+    ...fields
+  };
+  const line = options.format === 'json' ? JSON.stringify(entry) : formatPretty(entry);
+  (level === 'warn' || level === 'error' ? process.stderr : process.stdout).write(`${line}\n`);
+};
+
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields)
+};
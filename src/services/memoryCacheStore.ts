@@ -0,0 +1,155 @@
+import NodeCache from 'node-cache';
+import { CacheStore, CacheStoreStats } from './cacheStore';
+
+export interface MemoryCacheStoreOptions extends NodeCache.Options {
+  // Entries kept before the least recently used ones are evicted
+  maxEntries?: number;
+  // Approximate size (serialized bytes) kept before the least recently used entries are evicted
+  maxBytes?: number;
+}
+
+// In-process cache backed by node-cache, bounded by entry count and size
+export class MemoryCacheStore implements CacheStore {
+  readonly backend = 'memory' as const;
+  private cache: NodeCache;
+  private maxEntries: number;
+  private maxBytes: number;
+  // Entry sizes; Map iteration order doubles as the LRU order: oldest first
+  private sizes = new Map<string, number>();
+  private totalBytes = 0;
+  private evictions = 0;
+  // Item ID -> keys that reference it, and key -> IDs for cleaning up when the key goes away
+  private referencingKeys = new Map<string, Set<string>>();
+  private keyReferences = new Map<string, string[]>();
+
+  constructor(options: MemoryCacheStoreOptions = {}) {
+    const { maxEntries, maxBytes, ...cacheOptions } = options;
+    this.cache = new NodeCache(cacheOptions);
+    this.maxEntries = maxEntries ?? Infinity;
+    this.maxBytes = maxBytes ?? Infinity;
+
+    // Deletes, expiries (which delete) and evictions all pass through here
+    this.cache.on('del', (key: string) => {
+      this.forget(key);
+      this.forgetReferences(key);
+    });
+    this.cache.on('flush', () => {
+      this.sizes.clear();
+      this.totalBytes = 0;
+      this.referencingKeys.clear();
+      this.keyReferences.clear();
+    });
+  }
+
+  private forgetReferences(key: string): void {
+    for (const id of this.keyReferences.get(key) || []) {
+      const keys = this.referencingKeys.get(id);
+      keys?.delete(key);
+      if (keys?.size === 0) {
+        this.referencingKeys.delete(id);
+      }
+    }
+    this.keyReferences.delete(key);
+  }
+
+  private forget(key: string): void {
+    const size = this.sizes.get(key);
+    if (size !== undefined) {
+      this.sizes.delete(key);
+      this.totalBytes -= size;
+    }
+  }
+
+  private evict(): void {
+    for (const key of this.sizes.keys()) {
+      if (this.sizes.size <= this.maxEntries && this.totalBytes <= this.maxBytes) {
+        break;
+      }
+      this.cache.del(key);
+      this.evictions++;
+    }
+  }
+
+  async get<T = any>(key: string): Promise<T | undefined> {
+    const value = this.cache.get<T>(key);
+    const size = this.sizes.get(key);
+    if (value !== undefined && size !== undefined) {
+      this.sizes.delete(key);
+      this.sizes.set(key, size);
+    }
+    return value;
+  }
+
+  async set<T = any>(key: string, value: T, ttl?: number): Promise<void> {
+    const size = Buffer.byteLength(JSON.stringify(value) ?? '');
+    if (size > this.maxBytes) {
+      // Larger than the whole cache: don't store it, and drop the outdated version
+      this.cache.del(key);
+      return;
+    }
+
+    if (ttl === undefined) {
+      this.cache.set(key, value);
+    } else {
+      this.cache.set(key, value, ttl);
+    }
+    this.forget(key);
+    this.sizes.set(key, size);
+    this.totalBytes += size;
+    this.evict();
+  }
+
+  async del(keys: string | string[]): Promise<number> {
+    return this.cache.del(keys);
+  }
+
+  async has(key: string): Promise<boolean> {
+    return this.cache.has(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return this.cache.keys();
+  }
+
+  async getTtl(key: string): Promise<number | undefined> {
+    return this.cache.getTtl(key);
+  }
+
+  async flush(): Promise<void> {
+    this.cache.flushAll();
+  }
+
+  // Entries expire with their key, through the 'del' event
+  async addReferences(key: string, ids: string[]): Promise<void> {
+    if (!this.cache.has(key)) {
+      return;
+    }
+    this.forgetReferences(key);
+    this.keyReferences.set(key, ids);
+    for (const id of ids) {
+      const keys = this.referencingKeys.get(id) ?? new Set<string>();
+      keys.add(key);
+      this.referencingKeys.set(id, keys);
+    }
+  }
+
+  async getReferencingKeys(id: string): Promise<string[]> {
+    return Array.from(this.referencingKeys.get(id) ?? []);
+  }
+
+  async getStats(): Promise<CacheStoreStats> {
+    const stats = this.cache.getStats();
+    return {
+      backend: this.backend,
+      keys: stats.keys,
+      hits: stats.hits,
+      misses: stats.misses,
+      bytes: this.totalBytes,
+      evictions: this.evictions
+    };
+  }
+
+  async ping(): Promise<void> {
+    return;
+  }
+}
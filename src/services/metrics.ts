@@ -0,0 +1,177 @@
+// Minimal Prometheus registry: counters and histograms updated as things happen, plus
+// collectors for values that are read at scrape time (cache size, breaker state, ...)
+export type MetricLabels = Record<string, string | number>;
+
+export interface MetricSample {
+  labels: MetricLabels;
+  value: number;
+}
+
+interface Metric {
+  render(): Promise<string[]>;
+}
+
+export const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]; // seconds
+
+const registry: Metric[] = [];
+
+const escapeLabel = (value: string): string => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: MetricLabels): string => {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(String(value))}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+const formatValue = (value: number): string => {
+  if (value === Infinity) {
+    return '+Inf';
+  }
+  return Number.isNaN(value) ? 'NaN' : String(value);
+};
+
+const header = (name: string, help: string, type: string): string[] => [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+
+// Label values in a fixed order, so equal label sets share one series
+const seriesKey = (labelNames: string[], labels: MetricLabels): string => {
+  return JSON.stringify(labelNames.map(name => String(labels[name] ?? '')));
+};
+
+const pickLabels = (labelNames: string[], labels: MetricLabels): MetricLabels => {
+  return Object.fromEntries(labelNames.map(name => [name, labels[name] ?? '']));
+};
+
+export class Counter implements Metric {
+  private series = new Map<string, MetricSample>();
+
+  constructor(readonly name: string, readonly help: string, readonly labelNames: string[] = []) {
+    registry.push(this);
+  }
+
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    const key = seriesKey(this.labelNames, labels);
+    const sample = this.series.get(key);
+    if (sample) {
+      sample.value += value;
+    } else {
+      this.series.set(key, { labels: pickLabels(this.labelNames, labels), value });
+    }
+  }
+
+  async render(): Promise<string[]> {
+    return [
+      ...header(this.name, this.help, 'counter'),
+      ...Array.from(this.series.values()).map(sample => `${this.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`)
+    ];
+  }
+}
+
+interface HistogramSeries {
+  labels: MetricLabels;
+  // Observations per bucket (not cumulative), the last one is +Inf
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram implements Metric {
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[] = [],
+    readonly buckets: number[] = DURATION_BUCKETS
+  ) {
+    registry.push(this);
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = seriesKey(this.labelNames, labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: pickLabels(this.labelNames, labels), counts: new Array(this.buckets.length + 1).fill(0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    const index = this.buckets.findIndex(bound => value <= bound);
+    series.counts[index === -1 ? this.buckets.length : index]++;
+    series.sum += value;
+    series.count++;
+  }
+
+  async render(): Promise<string[]> {
+    const lines = header(this.name, this.help, 'histogram');
+    for (const series of this.series.values()) {
+      let cumulative = 0;
+      [...this.buckets, Infinity].forEach((bound, index) => {
+        cumulative += series.counts[index];
+        lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: formatValue(bound) })} ${cumulative}`);
+      });
+      lines.push(`${this.name}_sum${formatLabels(series.labels)} ${series.sum}`);
+      lines.push(`${this.name}_count${formatLabels(series.labels)} ${series.count}`);
+    }
+    return lines;
+  }
+}
+
+// Values owned by other modules, read when Prometheus scrapes. `type` is counter for
+// totals that only grow (e.g. evictions) and gauge for everything else.
+export class Collector implements Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: 'counter' | 'gauge',
+    private collect: () => MetricSample[] | Promise<MetricSample[]>
+  ) {
+    registry.push(this);
+  }
+
+  async render(): Promise<string[]> {
+    const samples = await this.collect();
+    return [
+      ...header(this.name, this.help, this.type),
+      ...samples.map(sample => `${this.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`)
+    ];
+  }
+}
+
+// Every registered metric in the Prometheus text exposition format
+export const renderMetrics = async (): Promise<string> => {
+  const families = await Promise.all(registry.map(metric => metric.render()));
+  return `${families.flat().join('\n')}\n`;
+};
+
+export const httpRequests = new Counter(
+  'http_requests_total',
+  'HTTP requests handled by the proxy',
+  ['method', 'route', 'status']
+);
+
+export const httpRequestDuration = new Histogram(
+  'http_request_duration_seconds',
+  'Time to handle HTTP requests',
+  ['method', 'route', 'status']
+);
+
+export const cacheResults = new Counter(
+  'proxy_cache_requests_total',
+  'Responses by resource type and cache status (HIT, MISS, STALE, BYPASS, MIRROR)',
+  ['resource', 'cache']
+);
+
+export const upstreamRequests = new Counter(
+  'contentful_upstream_requests_total',
+  'Calls to Contentful APIs by client and HTTP status or error code, including retries',
+  ['client', 'status']
+);
+
+export const upstreamDuration = new Histogram(
+  'contentful_upstream_request_duration_seconds',
+  'Duration of calls to Contentful APIs',
+  ['client']
+);
+
+export const rateLimitRejections = new Counter(
+  'http_rate_limited_total',
+  'Requests rejected by a rate limiter (api, expensive) and tier (anonymous, client)',
+  ['limiter', 'tier']
+);
@@ -0,0 +1,32 @@
+import { Request, Response, NextFunction } from 'express';
+import { getConfig } from '../config';
+import { logger } from './logger';
+import { safeEqual } from '../utils/crypto';
+import { matchesIpList } from '../utils/ip';
+
+// Middleware guarding /metrics: scrapers present METRICS_TOKEN as a bearer token or
+// connect from an address in METRICS_ALLOWED_IPS. Either one is enough.
+export const requireMetricsAccess = (req: Request, res: Response, next: NextFunction) => {
+  const { token, allowedIps } = getConfig().metrics;
+  if (!token && allowedIps.length === 0) {
+    return res.status(404).json({
+      error: 'Not Found',
+      message: 'Metrics endpoint is not enabled on this proxy'
+    });
+  }
+
+  const authorization = req.get('authorization');
+  const presented = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : undefined;
+  if ((token && presented && safeEqual(presented, token)) || matchesIpList(req.ip, allowedIps)) {
+    return next();
+  }
+
+  logger.warn('Rejected metrics request', { ip: req.ip });
+  if (token) {
+    res.set('WWW-Authenticate', 'Bearer');
+  }
+  return res.status(token ? 401 : 403).json({
+    error: token ? 'Unauthorized' : 'Forbidden',
+    message: token ? 'Valid metrics token required' : 'Metrics are not available from this address'
+  });
+};
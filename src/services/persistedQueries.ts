@@ -0,0 +1,124 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import { getConfig } from '../config';
+import { logger } from './logger';
+
+// A GraphQL document the proxy is willing to send to Contentful
+export interface GraphqlOperation {
+  query: string;
+  // sha256 (hex) of the query text, as used by Apollo automatic persisted queries
+  hash: string;
+  // Names of the operations the document defines
+  operationNames: string[];
+}
+
+export interface OperationLookup {
+  operation?: GraphqlOperation;
+  // GraphQL error code and HTTP status when the request can't be served
+  error?: { status: number; code: string; message: string };
+}
+
+export const operationHash = (query: string): string => {
+  return crypto.createHash('sha256').update(query).digest('hex');
+};
+
+// Comments and string literals can't declare operations, so they are skipped
+const IGNORED_TOKENS = /#[^\n\r]*|"""[\s\S]*?"""|"(?:\\.|[^"\\])*"/g;
+const NAMED_OPERATION = /\b(?:query|mutation|subscription)\s+([_A-Za-z][_0-9A-Za-z]*)/g;
+
+export const operationNames = (query: string): string[] => {
+  const source = query.replace(IGNORED_TOKENS, ' ');
+  return Array.from(source.matchAll(NAMED_OPERATION), match => match[1]);
+};
+
+const toOperation = (query: string): GraphqlOperation => ({
+  query,
+  hash: operationHash(query),
+  operationNames: operationNames(query)
+});
+
+// The operation to run: the requested name, which the document must define, or else the
+// document's only named operation. Null when the document doesn't define the requested name.
+export const resolveOperationName = (operation: GraphqlOperation, requested: string | undefined): string | null => {
+  if (requested) {
+    return operation.operationNames.includes(requested) ? requested : null;
+  }
+  return operation.operationNames.length === 1 ? operation.operationNames[0] : '';
+};
+
+interface PersistedQueryRegistry {
+  // Persisted queries by ID and by hash
+  queries: Map<string, GraphqlOperation>;
+  // Hashes of documents clients may also send in full
+  allowedHashes: Set<string>;
+}
+
+let registry: PersistedQueryRegistry | null = null;
+
+// GRAPHQL_PERSISTED_QUERIES: JSON file mapping query IDs to documents, e.g. the manifest
+// generated by the storefront build. GRAPHQL_ALLOWED_OPERATIONS: extra sha256 hashes.
+const loadRegistry = (): PersistedQueryRegistry => {
+  if (registry) {
+    return registry;
+  }
+
+  registry = { queries: new Map(), allowedHashes: new Set() };
+
+  const { persistedQueries: manifestPath, allowedOperations } = getConfig().graphql;
+  if (manifestPath) {
+    try {
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+      if (!manifest || typeof manifest !== 'object' || Array.isArray(manifest)) {
+        throw new Error('expected a JSON object of { id: query }');
+      }
+      for (const [id, query] of Object.entries(manifest)) {
+        if (typeof query !== 'string') {
+          logger.warn('Ignoring persisted query without a query string', { id });
+          continue;
+        }
+        const operation = toOperation(query);
+        registry.queries.set(id, operation);
+        registry.queries.set(operation.hash, operation);
+        registry.allowedHashes.add(operation.hash);
+      }
+      logger.info('Loaded persisted GraphQL queries', { count: registry.allowedHashes.size });
+    } catch (error: any) {
+      logger.error('Invalid GRAPHQL_PERSISTED_QUERIES', { error: error.message });
+    }
+  }
+
+  for (const hash of allowedOperations) {
+    registry.allowedHashes.add(hash);
+  }
+
+  return registry;
+};
+
+// Pick the operation for a GraphQL request body: a persisted query ID (`id`), an Apollo
+// persisted query hash (`extensions.persistedQuery.sha256Hash`) or a full allowlisted `query`
+export const resolveOperation = (body: any): OperationLookup => {
+  const { queries, allowedHashes } = loadRegistry();
+  const query = typeof body?.query === 'string' ? body.query : undefined;
+  const id = typeof body?.id === 'string' ? body.id : body?.extensions?.persistedQuery?.sha256Hash;
+
+  if (query !== undefined) {
+    const operation = toOperation(query);
+    const { hash } = operation;
+    if (id !== undefined && id !== hash && queries.get(id)?.hash !== hash) {
+      return { error: { status: 400, code: 'PERSISTED_QUERY_HASH_MISMATCH', message: 'Query does not match the persisted query ID' } };
+    }
+    if (!allowedHashes.has(hash)) {
+      return { error: { status: 403, code: 'OPERATION_NOT_ALLOWED', message: 'Query is not on the allowlist of this proxy' } };
+    }
+    return { operation };
+  }
+
+  if (typeof id === 'string') {
+    const operation = queries.get(id);
+    return operation
+      ? { operation }
+      : { error: { status: 404, code: 'PERSISTED_QUERY_NOT_FOUND', message: 'PersistedQueryNotFound' } };
+  }
+
+  return { error: { status: 400, code: 'BAD_REQUEST', message: 'Request must contain a persisted query ID or a query' } };
+};
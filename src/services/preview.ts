@@ -0,0 +1,97 @@
+import { Request, Response, NextFunction } from 'express';
+import { getConfig } from '../config';
+import { hmacSha256Hex, safeEqual } from '../utils/crypto';
+
+export const PREVIEW_COOKIE = 'st_preview';
+export const PREVIEW_HEADER = 'x-preview-token';
+export const PREVIEW_TOKEN_TTL = 60 * 60; // 1 hour in seconds
+
+const getPreviewSecret = (): string | null => getConfig().preview.secret;
+
+const sign = (secret: string, payload: string): string => hmacSha256Hex(secret, `preview:${payload}`);
+
+// Check the shared secret presented to /api/preview/enable
+export const isValidPreviewSecret = (candidate: unknown): boolean => {
+  const secret = getPreviewSecret();
+  return !!secret && typeof candidate === 'string' && safeEqual(candidate, secret);
+};
+
+// Preview tokens look like `<expiresAt>.<hmac>` and are signed with PREVIEW_SECRET
+export const createPreviewToken = (ttlSeconds: number = PREVIEW_TOKEN_TTL): string => {
+  const secret = getPreviewSecret();
+  if (!secret) {
+    throw new Error('PREVIEW_SECRET is not configured');
+  }
+
+  const expiresAt = String(Math.floor(Date.now() / 1000) + ttlSeconds);
+  return `${expiresAt}.${sign(secret, expiresAt)}`;
+};
+
+export const verifyPreviewToken = (token: string): boolean => {
+  const secret = getPreviewSecret();
+  if (!secret) {
+    return false;
+  }
+
+  const [expiresAt, signature] = token.split('.');
+  if (!expiresAt || !signature || !/^\d+$/.test(expiresAt)) {
+    return false;
+  }
+
+  if (Number(expiresAt) < Math.floor(Date.now() / 1000)) {
+    return false;
+  }
+
+  return safeEqual(signature, sign(secret, expiresAt));
+};
+
+const readCookie = (req: Request, name: string): string | undefined => {
+  const header = req.headers.cookie;
+  if (!header) {
+    return undefined;
+  }
+
+  for (const part of header.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      // A malformed value counts as no cookie rather than failing the request
+      try {
+        return decodeURIComponent(value.join('='));
+      } catch (error) {
+        return undefined;
+      }
+    }
+  }
+
+  return undefined;
+};
+
+// Token presented by the caller, via header or cookie
+const getPresentedToken = (req: Request): string | undefined => {
+  return req.get(PREVIEW_HEADER) || readCookie(req, PREVIEW_COOKIE);
+};
+
+// Middleware that flags preview requests on res.locals.preview and rejects bad tokens
+export const previewMode = (req: Request, res: Response, next: NextFunction) => {
+  const token = getPresentedToken(req);
+  res.locals.preview = false;
+  // The same URL answers with draft or published content depending on these headers,
+  // so shared caches must not hand a published response to a preview session
+  res.vary('Cookie, X-Preview-Token');
+
+  if (!token) {
+    return next();
+  }
+
+  if (!verifyPreviewToken(token)) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Invalid or expired preview token'
+    });
+  }
+
+  res.locals.preview = true;
+  // Draft content must never end up in shared or browser caches
+  res.set('Cache-Control', 'private, no-store');
+  return next();
+};
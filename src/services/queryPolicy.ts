@@ -0,0 +1,79 @@
+import { getConfig } from '../config';
+import { globToRegExp } from '../utils/glob';
+
+export interface QueryPolicy {
+  // Contentful query params clients may send, as globs, e.g. 'fields.slug' or 'sys.id[*]'
+  allowedParams: string[];
+  // Upper bounds for the paging and link depth params
+  maxLimit: number;
+  maxSkip: number;
+  maxInclude: number;
+}
+
+// What the frontend needs from the generic /entries passthrough; anything else goes
+// through a named /content route
+export const DEFAULT_ENTRIES_ALLOWED_PARAMS = [
+  'content_type',
+  'select',
+  'order',
+  'limit',
+  'skip',
+  'include',
+  'locale',
+  'sys.id',
+  'sys.id[in]',
+  'fields.slug',
+  'fields.slug[in]',
+  'metadata.tags.sys.id[in]',
+  'metadata.tags.sys.id[all]',
+  'links_to_entry',
+  'links_to_asset'
+];
+
+export const DEFAULT_MAX_LIMIT = 100;
+export const DEFAULT_MAX_SKIP = 1000;
+export const DEFAULT_MAX_INCLUDE = 3;
+
+let entriesPolicy: QueryPolicy | null = null;
+
+// Policy for /entries: ENTRIES_ALLOWED_PARAMS (comma separated globs), QUERY_MAX_LIMIT,
+// QUERY_MAX_SKIP and QUERY_MAX_INCLUDE
+export const getEntriesQueryPolicy = (): QueryPolicy => {
+  if (!entriesPolicy) {
+    const { queryPolicy } = getConfig();
+    entriesPolicy = {
+      allowedParams: queryPolicy.entriesAllowedParams,
+      maxLimit: queryPolicy.maxLimit,
+      maxSkip: queryPolicy.maxSkip,
+      maxInclude: queryPolicy.maxInclude
+    };
+  }
+  return entriesPolicy;
+};
+
+// Error message for the first param that breaks the policy, or null. Expects a query from
+// normalizeQuery(); params in `ignored` (the proxy's own option params) are not checked.
+export const checkQueryPolicy = (policy: QueryPolicy, query: Record<string, string>, ignored: string[] = []): string | null => {
+  const allowed = policy.allowedParams.map(globToRegExp);
+  for (const name of Object.keys(query)) {
+    if (!ignored.includes(name) && !allowed.some(pattern => pattern.test(name))) {
+      return `Query parameter "${name}" is not allowed`;
+    }
+  }
+
+  const bounds: Array<[string, number]> = [
+    ['limit', policy.maxLimit],
+    ['skip', policy.maxSkip],
+    ['include', policy.maxInclude]
+  ];
+  for (const [param, max] of bounds) {
+    const value = query[param];
+    if (value === undefined) {
+      continue;
+    }
+    if (!/^\d+$/.test(value) || Number(value) > max) {
+      return `Parameter "${param}" must be an integer between 0 and ${max}`;
+    }
+  }
+  return null;
+};
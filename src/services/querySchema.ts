@@ -0,0 +1,154 @@
+// Schema of the Contentful Delivery API query params the proxy forwards. Requests are
+// checked against it and normalized before the cache key is built, so junk params can't
+// create cache entries and equivalent queries share one entry.
+
+export type NormalizedQuery = Record<string, string>;
+
+export interface QueryNormalization {
+  query: NormalizedQuery;
+  error: string | null;
+}
+
+export const MAX_QUERY_PARAMS = 20;
+export const MAX_QUERY_VALUE_LENGTH = 1024;
+
+// Search operators, e.g. fields.price[lte]=100
+export const QUERY_OPERATORS = ['ne', 'in', 'nin', 'all', 'exists', 'lt', 'lte', 'gt', 'gte', 'match', 'near', 'within'];
+
+// Operators whose value is an unordered comma separated list
+const SET_OPERATORS = ['in', 'nin', 'all'];
+
+const MIMETYPE_GROUPS = [
+  'attachment', 'plaintext', 'image', 'audio', 'video', 'richtext',
+  'presentation', 'spreadsheet', 'pdfdocument', 'archive', 'code', 'markup'
+];
+const SYNC_TYPES = ['all', 'Asset', 'Entry', 'Deletion', 'DeletedAsset', 'DeletedEntry'];
+
+const ID_PATTERN = /^[A-Za-z0-9._-]+$/;
+const LOCALE_PATTERN = /^([A-Za-z]{2,3}(-[A-Za-z0-9]+)*|\*)$/;
+// sys.id, fields.slug, fields.brand.sys.id, metadata.tags.sys.id, ...
+const FIELD_PATH_PATTERN = /^(sys|fields|metadata)(\.[A-Za-z0-9_]+)+$/;
+const SELECT_PATH_PATTERN = /^(sys|fields|metadata)(\.[A-Za-z0-9_]+)*$/;
+const FILTER_PATTERN = /^((?:sys|fields|metadata)(?:\.[A-Za-z0-9_]+)+)(?:\[(\w+)\])?$/;
+const COORDINATES_PATTERN = /^-?\d+(\.\d+)?(,-?\d+(\.\d+)?)+$/;
+
+const isIntegerIn = (min: number, max: number) => (value: string): boolean => {
+  return /^\d+$/.test(value) && Number(value) >= min && Number(value) <= max;
+};
+
+const isListOf = (isValid: (item: string) => boolean) => (value: string): boolean => {
+  return value.split(',').every(item => isValid(item.trim()));
+};
+
+// Params with a fixed name, and the values they accept
+const PARAMS: Record<string, (value: string) => boolean> = {
+  limit: isIntegerIn(0, 1000),
+  skip: isIntegerIn(0, Number.MAX_SAFE_INTEGER),
+  include: isIntegerIn(0, 10),
+  order: isListOf(item => FIELD_PATH_PATTERN.test(item.replace(/^-/, ''))),
+  select: isListOf(item => SELECT_PATH_PATTERN.test(item)),
+  locale: value => LOCALE_PATTERN.test(value),
+  content_type: value => ID_PATTERN.test(value),
+  query: () => true,
+  links_to_entry: value => ID_PATTERN.test(value),
+  links_to_asset: value => ID_PATTERN.test(value),
+  mimetype_group: value => MIMETYPE_GROUPS.includes(value),
+  // Sync API
+  initial: value => value === 'true',
+  sync_token: value => /^[\w~.=+/-]+$/.test(value),
+  type: value => SYNC_TYPES.includes(value)
+};
+
+const isValidFilterValue = (operator: string | undefined, value: string): boolean => {
+  switch (operator) {
+    case 'exists':
+      return value === 'true' || value === 'false';
+    case 'near':
+    case 'within':
+      return COORDINATES_PATTERN.test(value);
+    default:
+      return true;
+  }
+};
+
+// Sorted, de-duplicated list for params where item order doesn't change the response
+const canonicalList = (value: string): string => {
+  return Array.from(new Set(value.split(',').map(item => item.trim()).filter(Boolean))).sort().join(',');
+};
+
+// Express parses operator params like sys.id[in]=a into { 'sys.id': { in: 'a' } };
+// flatten them back to their Contentful names. Returns null for repeated or deeper nested params.
+const flattenParams = (query: Record<string, any>): Array<[string, string]> | null => {
+  const params: Array<[string, string]> = [];
+  for (const [name, value] of Object.entries(query)) {
+    if (typeof value === 'string') {
+      params.push([name, value]);
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      for (const [operator, operand] of Object.entries(value)) {
+        if (typeof operand !== 'string') {
+          return null;
+        }
+        params.push([`${name}[${operator}]`, operand]);
+      }
+    } else {
+      return null;
+    }
+  }
+  return params;
+};
+
+// Validate a request query and return it with flat param names and canonical values.
+// `ownParams` are proxy-side params (output options) that are passed through unchecked.
+export const normalizeQuery = (query: Record<string, any>, ownParams: string[] = []): QueryNormalization => {
+  const normalized: NormalizedQuery = {};
+  const fail = (error: string): QueryNormalization => ({ query: normalized, error });
+
+  const params = flattenParams(query);
+  if (!params) {
+    return fail('Query parameters must be given once, as plain values');
+  }
+  if (params.length > MAX_QUERY_PARAMS) {
+    return fail(`At most ${MAX_QUERY_PARAMS} query parameters are allowed`);
+  }
+
+  for (const [name, rawValue] of params) {
+    const value = rawValue.trim();
+    if (value.length > MAX_QUERY_VALUE_LENGTH) {
+      return fail(`Query parameter "${name}" is longer than ${MAX_QUERY_VALUE_LENGTH} characters`);
+    }
+
+    if (ownParams.includes(name)) {
+      normalized[name] = value;
+      continue;
+    }
+
+    const isValid = PARAMS[name];
+    if (isValid) {
+      if (!isValid(value)) {
+        return fail(`Invalid value for query parameter "${name}"`);
+      }
+      normalized[name] = name === 'select' ? canonicalList(value) : value;
+      continue;
+    }
+
+    const filter = FILTER_PATTERN.exec(name);
+    if (!filter) {
+      return fail(`Unknown query parameter "${name}"`);
+    }
+    const operator = filter[2];
+    if (operator !== undefined && !QUERY_OPERATORS.includes(operator)) {
+      return fail(`Unknown operator "[${operator}]" in query parameter "${name}"`);
+    }
+    if (!isValidFilterValue(operator, value)) {
+      return fail(`Invalid value for query parameter "${name}"`);
+    }
+    normalized[name] = operator && SET_OPERATORS.includes(operator) ? canonicalList(value) : value;
+  }
+
+  // Canonical param order
+  const sorted: NormalizedQuery = {};
+  for (const name of Object.keys(normalized).sort()) {
+    sorted[name] = normalized[name];
+  }
+  return { query: sorted, error: null };
+};
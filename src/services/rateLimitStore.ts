@@ -0,0 +1,78 @@
+import Redis from 'ioredis';
+import { ClientRateLimitInfo, Options, Store } from 'express-rate-limit';
+import { getConfig } from '../config';
+import { logger } from './logger';
+import { createRedisClient } from './redisCacheStore';
+
+export type RateLimitStoreBackend = 'memory' | 'redis';
+
+// Kept outside REDIS_KEY_PREFIX, so cache flushes and key listings never touch the counters
+export const DEFAULT_RATE_LIMIT_REDIS_PREFIX = 'soundtools-ratelimit:';
+
+// Increment the hit counter and start its window on the first hit, in one round trip
+const INCREMENT_SCRIPT = `
+local hits = redis.call('INCR', KEYS[1])
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl < 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+  ttl = tonumber(ARGV[1])
+end
+return { hits, ttl }
+`;
+
+// Hit counters in Redis, so that every dyno counts against the same budget
+export class RedisRateLimitStore implements Store {
+  readonly localKeys = false;
+  private windowMs = 0;
+
+  constructor(private client: Redis, readonly prefix: string) {}
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+  }
+
+  private toRedisKey(key: string): string {
+    return `${this.prefix}${key}`;
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const redisKey = this.toRedisKey(key);
+    const [hits, ttl] = await Promise.all([this.client.get(redisKey), this.client.pttl(redisKey)]);
+    if (hits === null) {
+      return undefined;
+    }
+    return { totalHits: Number(hits), resetTime: new Date(Date.now() + Math.max(ttl, 0)) };
+  }
+
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    const [hits, ttl] = await this.client.eval(INCREMENT_SCRIPT, 1, this.toRedisKey(key), this.windowMs) as [number, number];
+    return { totalHits: hits, resetTime: new Date(Date.now() + ttl) };
+  }
+
+  async decrement(key: string): Promise<void> {
+    await this.client.decr(this.toRedisKey(key));
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await this.client.del(this.toRedisKey(key));
+  }
+}
+
+let redisClient: Redis | null = null;
+
+// Store for the limiter called `name` (RATE_LIMIT_STORE). Undefined means the in-process
+// memory store of express-rate-limit, which counts per dyno.
+export const createRateLimitStore = (name: string): Store | undefined => {
+  const config = getConfig();
+  if (config.rateLimit.store !== 'redis') {
+    return undefined;
+  }
+
+  if (!redisClient) {
+    redisClient = createRedisClient(config.cache.redisUrl!);
+    redisClient.on('error', (error: Error) => {
+      logger.error('Redis error in rate limit store', { error: error.message });
+    });
+  }
+  return new RedisRateLimitStore(redisClient, `${config.rateLimit.redisPrefix}${name}:`);
+};
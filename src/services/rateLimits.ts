@@ -0,0 +1,125 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import rateLimit from 'express-rate-limit';
+import { getConfig } from '../config';
+import { logger } from './logger';
+import { rateLimitRejections } from './metrics';
+import { createRateLimitStore } from './rateLimitStore';
+import { isWarmupRequest } from './cacheWarmup';
+import { safeEqual } from '../utils/crypto';
+
+// Issued to trusted clients such as the Next.js servers (RATE_LIMIT_API_KEYS)
+export interface RateLimitClient {
+  // Shown in logs and used as the rate limit key instead of the IP
+  name: string;
+  apiKey: string;
+  // Overrides of RATE_LIMIT_CLIENT_MAX_REQUESTS / RATE_LIMIT_CLIENT_EXPENSIVE_MAX_REQUESTS
+  maxRequests?: number;
+  expensiveMaxRequests?: number;
+}
+
+export type RateLimitTier = 'anonymous' | 'client';
+
+export const API_KEY_HEADER = 'X-Api-Key';
+
+const getClient = (res: Response): RateLimitClient | null => res.locals.rateLimitClient ?? null;
+
+// Resolve the X-Api-Key header to a client. An unknown key is rejected instead of falling
+// back to the anonymous tier, so that a misconfigured server notices right away.
+export const identifyClient = (req: Request, res: Response, next: NextFunction) => {
+  const presented = req.get(API_KEY_HEADER);
+  if (!presented) {
+    return next();
+  }
+
+  const client = getConfig().rateLimit.clients.find(candidate => safeEqual(presented, candidate.apiKey));
+  if (!client) {
+    logger.warn('Rejected unknown API key', { method: req.method, path: req.originalUrl, ip: req.ip });
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Unknown API key'
+    });
+  }
+
+  res.locals.rateLimitClient = client;
+  return next();
+};
+
+// Large `limit` queries and sync pages make Contentful assemble big responses, and
+// sync is never cached, so they count against a separate, smaller budget too
+export const isExpensiveRequest = (req: Request): boolean => {
+  const limit = Number(req.query.limit);
+  return (Number.isFinite(limit) && limit > getConfig().rateLimit.expensiveLimit) || /\/sync\/?$/.test(req.path);
+};
+
+interface LimiterOptions {
+  name: string;
+  limit: (client: RateLimitClient | null) => number;
+  skip?: (req: Request) => boolean;
+}
+
+const createLimiter = ({ name, limit, skip }: LimiterOptions): RequestHandler => {
+  const { windowMs } = getConfig().rateLimit;
+
+  return rateLimit({
+    windowMs,
+    limit: (req, res) => limit(getClient(res)),
+    // Clients are counted by key, so every server behind one key shares its budget
+    keyGenerator: (req, res) => {
+      const client = getClient(res);
+      return client ? `client:${client.name}` : `ip:${req.ip}`;
+    },
+    store: createRateLimitStore(name),
+    standardHeaders: true,
+    legacyHeaders: false,
+    // A Redis outage should not take the API down with it
+    passOnStoreError: true,
+    // The cache warmer requests many paths from localhost at once
+    skip: req => isWarmupRequest(req) || (skip ? skip(req) : false),
+    handler: (req, res, next, options) => {
+      const client = getClient(res);
+      const tier: RateLimitTier = client ? 'client' : 'anonymous';
+      rateLimitRejections.inc({ limiter: name, tier });
+      logger.warn('Rate limit exceeded', { limiter: name, tier, client: client?.name, ip: req.ip });
+      res.status(options.statusCode).json({
+        error: 'Too Many Requests',
+        message: client
+          ? `Too many requests for API key "${client.name}", please try again later.`
+          : 'Too many requests from this IP, please try again later.',
+        retryAfter: `${Math.ceil(windowMs / 60000)} minutes`
+      });
+    }
+  });
+};
+
+const expensiveLimit = (client: RateLimitClient | null): number => {
+  const config = getConfig().rateLimit;
+  return client ? client.expensiveMaxRequests ?? config.clientExpensiveMaxRequests : config.expensiveMaxRequests;
+};
+
+// Rate limit tiers: anonymous clients per IP, API key clients per key, and a separate
+// budget for expensive requests in each tier. Counters live in RATE_LIMIT_STORE.
+export const createRateLimiters = (): RequestHandler[] => {
+  const config = getConfig().rateLimit;
+
+  return [
+    identifyClient,
+    createLimiter({
+      name: 'api',
+      limit: client => client ? client.maxRequests ?? config.clientMaxRequests : config.maxRequests
+    }),
+    createLimiter({
+      name: 'expensive',
+      limit: expensiveLimit,
+      skip: req => !isExpensiveRequest(req)
+    })
+  ];
+};
+
+// Every image cache miss is an Images API fetch and a disk write, so misses count against
+// the expensive budget of each tier. Disk cache hits are served without a limit.
+export const createImageMissLimiters = (): RequestHandler[] => {
+  return [
+    identifyClient,
+    createLimiter({ name: 'images', limit: expensiveLimit })
+  ];
+};
@@ -0,0 +1,188 @@
+import Redis from 'ioredis';
+import { CacheStore, CacheStoreStats } from './cacheStore';
+import { logger } from './logger';
+
+export interface RedisCacheStoreOptions {
+  // Connection URL, e.g. REDIS_URL on Heroku
+  url?: string;
+  // Existing client, e.g. a local test instance
+  client?: Redis;
+  // Namespace for every key so a shared Redis can hold other data
+  prefix?: string;
+  // Default TTL in seconds when set() is called without one
+  defaultTtl?: number;
+}
+
+export const DEFAULT_REDIS_KEY_PREFIX = 'soundtools-proxy:';
+
+// Prefixes always end in a colon: `proxy*` would also match the `proxy-refs:` sets
+export const toNamespace = (prefix: string): string => prefix.endsWith(':') ? prefix : `${prefix}:`;
+
+const SCAN_BATCH_SIZE = 500;
+// Counting keys scans the whole namespace, so stats reuse the count for a while
+const KEY_COUNT_TTL_MS = 30 * 1000;
+
+// Client for a REDIS_URL, shared by the cache backend and the rate limit store
+export const createRedisClient = (url: string): Redis => {
+  return new Redis(url, {
+    maxRetriesPerRequest: 2,
+    // Heroku Redis uses self-signed certificates on rediss:// URLs
+    ...(url.startsWith('rediss://') ? { tls: { rejectUnauthorized: false } } : {})
+  });
+};
+
+// Shared cache backed by Redis, so every dyno sees the same entries and they survive restarts
+export class RedisCacheStore implements CacheStore {
+  readonly backend = 'redis' as const;
+  private client: Redis;
+  private prefix: string;
+  // Sets of referencing keys per item ID, outside the prefix so keys() doesn't list them
+  private referencesPrefix: string;
+  private defaultTtl: number;
+  private hits = 0;
+  private misses = 0;
+  private keyCount: { value: number; expiresAt: number } | null = null;
+  private counting: Promise<number> | null = null;
+
+  constructor(options: RedisCacheStoreOptions) {
+    if (options.client) {
+      this.client = options.client;
+    } else if (options.url) {
+      this.client = createRedisClient(options.url);
+    } else {
+      throw new Error('RedisCacheStore requires a url or a client');
+    }
+
+    this.prefix = toNamespace(options.prefix ?? DEFAULT_REDIS_KEY_PREFIX);
+    this.referencesPrefix = `${this.prefix.slice(0, -1)}-refs:`;
+    this.defaultTtl = options.defaultTtl ?? 0;
+
+    this.client.on('error', (error: Error) => {
+      logger.error('Redis error', { error: error.message });
+    });
+  }
+
+  private toRedisKey(key: string): string {
+    return `${this.prefix}${key}`;
+  }
+
+  async get<T = any>(key: string): Promise<T | undefined> {
+    const raw = await this.client.get(this.toRedisKey(key));
+    if (raw === null) {
+      this.misses++;
+      return undefined;
+    }
+    this.hits++;
+    return JSON.parse(raw) as T;
+  }
+
+  async set<T = any>(key: string, value: T, ttl?: number): Promise<void> {
+    const seconds = ttl ?? this.defaultTtl;
+    const payload = JSON.stringify(value);
+    if (seconds > 0) {
+      await this.client.set(this.toRedisKey(key), payload, 'EX', Math.ceil(seconds));
+    } else {
+      await this.client.set(this.toRedisKey(key), payload);
+    }
+  }
+
+  async del(keys: string | string[]): Promise<number> {
+    const list = Array.isArray(keys) ? keys : [keys];
+    if (list.length === 0) {
+      return 0;
+    }
+    return this.client.del(...list.map(key => this.toRedisKey(key)));
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await this.client.exists(this.toRedisKey(key))) === 1;
+  }
+
+  // SCAN rather than KEYS so large caches don't block Redis
+  private async scan(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, batch] = await this.client.scan(cursor, 'MATCH', `${prefix}*`, 'COUNT', SCAN_BATCH_SIZE);
+      cursor = next;
+      keys.push(...batch.map(key => key.slice(prefix.length)));
+    } while (cursor !== '0');
+    return keys;
+  }
+
+  async keys(): Promise<string[]> {
+    return this.scan(this.prefix);
+  }
+
+  async getTtl(key: string): Promise<number | undefined> {
+    const ttl = await this.client.pttl(this.toRedisKey(key));
+    if (ttl === -2) {
+      return undefined;
+    }
+    return ttl === -1 ? 0 : Date.now() + ttl;
+  }
+
+  // Only removes this proxy's keys, never the whole Redis database
+  async flush(): Promise<void> {
+    const keys = await this.keys();
+    for (let i = 0; i < keys.length; i += SCAN_BATCH_SIZE) {
+      await this.del(keys.slice(i, i + SCAN_BATCH_SIZE));
+    }
+    const references = await this.scan(this.referencesPrefix);
+    for (let i = 0; i < references.length; i += SCAN_BATCH_SIZE) {
+      await this.client.del(...references.slice(i, i + SCAN_BATCH_SIZE).map(id => `${this.referencesPrefix}${id}`));
+    }
+    this.keyCount = null;
+  }
+
+  // Each set lives as long as the newest key added to it
+  async addReferences(key: string, ids: string[], ttl?: number): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    const seconds = Math.ceil(ttl ?? this.defaultTtl);
+    const pipeline = this.client.pipeline();
+    for (const id of ids) {
+      pipeline.sadd(`${this.referencesPrefix}${id}`, key);
+      if (seconds > 0) {
+        pipeline.expire(`${this.referencesPrefix}${id}`, seconds);
+      }
+    }
+    await pipeline.exec();
+  }
+
+  async getReferencingKeys(id: string): Promise<string[]> {
+    return this.client.smembers(`${this.referencesPrefix}${id}`);
+  }
+
+  // Key count for stats, rescanned at most every KEY_COUNT_TTL_MS; concurrent callers share a scan
+  private countKeys(): Promise<number> {
+    if (this.keyCount && this.keyCount.expiresAt > Date.now()) {
+      return Promise.resolve(this.keyCount.value);
+    }
+    if (!this.counting) {
+      this.counting = this.keys()
+        .then(keys => {
+          this.keyCount = { value: keys.length, expiresAt: Date.now() + KEY_COUNT_TTL_MS };
+          return keys.length;
+        })
+        .finally(() => {
+          this.counting = null;
+        });
+    }
+    return this.counting;
+  }
+
+  async getStats(): Promise<CacheStoreStats> {
+    return {
+      backend: this.backend,
+      keys: await this.countKeys(),
+      hits: this.hits,
+      misses: this.misses
+    };
+  }
+
+  async ping(): Promise<void> {
+    await this.client.ping();
+  }
+}
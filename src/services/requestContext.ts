@@ -0,0 +1,162 @@
+import crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request, Response, NextFunction } from 'express';
+import { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { logger } from './logger';
+import { recordUpstreamError } from './upstreamErrors';
+import { cacheResults, httpRequestDuration, httpRequests, upstreamDuration, upstreamRequests } from './metrics';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// IDs from the router or the client are reused when they look like IDs
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+export interface RequestContext {
+  requestId: string;
+  // Time spent waiting for Contentful, summed over every upstream call and retry
+  upstreamMs: number;
+  upstreamRequests: number;
+  // Response body bytes written to the client
+  bytes: number;
+}
+
+interface TracedConfig extends InternalAxiosRequestConfig {
+  startedAt?: number;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export const getRequestContext = (): RequestContext | undefined => storage.getStore();
+
+export const getRequestId = (): string | undefined => storage.getStore()?.requestId;
+
+const countBytes = (context: RequestContext, chunk: unknown, encoding: unknown): void => {
+  if (typeof chunk === 'string') {
+    context.bytes += Buffer.byteLength(chunk, typeof encoding === 'string' ? encoding as BufferEncoding : 'utf8');
+  } else if (chunk instanceof Uint8Array) {
+    context.bytes += chunk.length;
+  }
+};
+
+// Count what is actually sent, including streamed responses without Content-Length
+const trackResponseBytes = (res: Response, context: RequestContext): void => {
+  const write = res.write.bind(res) as (...args: any[]) => boolean;
+  const end = res.end.bind(res) as (...args: any[]) => Response;
+
+  res.write = ((chunk: any, ...args: any[]) => {
+    countBytes(context, chunk, args[0]);
+    return write(chunk, ...args);
+  }) as Response['write'];
+  res.end = ((chunk?: any, ...args: any[]) => {
+    countBytes(context, chunk, args[0]);
+    return end(chunk, ...args);
+  }) as Response['end'];
+};
+
+// Route pattern for metrics labels, e.g. /api/contentful/entries/:entryId, so that
+// IDs in paths don't create a series per URL
+const routeLabel = (req: Request): string => {
+  if (!req.route) {
+    return 'unmatched';
+  }
+  const route = `${req.baseUrl}${req.route.path}`;
+  return route.length > 1 ? route.replace(/\/$/, '') : route;
+};
+
+// Give every request an ID (X-Request-Id, taken from the request when present), run the
+// rest of the chain in its context and write one access log line when the response is done
+export const requestContext = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const context: RequestContext = {
+    requestId: incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID(),
+    upstreamMs: 0,
+    upstreamRequests: 0,
+    bytes: 0
+  };
+  const startedAt = process.hrtime.bigint();
+
+  res.set(REQUEST_ID_HEADER, context.requestId);
+  trackResponseBytes(res, context);
+
+  // 'close' also fires when the client goes away before the response is complete
+  res.once('close', () => {
+    const durationMs = Number((process.hrtime.bigint() - startedAt) / BigInt(1000)) / 1000;
+    const cache = res.get('X-Cache');
+
+    const labels = { method: req.method, route: routeLabel(req), status: res.statusCode };
+    httpRequests.inc(labels);
+    httpRequestDuration.observe(labels, durationMs / 1000);
+    // Handlers that cache name their resource type in res.locals.resource
+    if (cache && res.locals.resource) {
+      cacheResults.inc({ resource: res.locals.resource, cache });
+    }
+
+    storage.run(context, () => {
+      logger.info('Request completed', {
+        method: req.method,
+        path: req.originalUrl,
+        status: res.statusCode,
+        aborted: res.writableFinished ? undefined : true,
+        durationMs,
+        upstreamMs: context.upstreamMs,
+        upstreamRequests: context.upstreamRequests,
+        cache,
+        bytes: context.bytes,
+        ip: req.ip
+      });
+    });
+  });
+
+  storage.run(context, next);
+};
+
+// Forward the request ID to the upstream, add each call's duration to the request's timing
+// and record it in the upstream metrics under `name` (e.g. cdn:space/master)
+export const traceUpstream = (client: AxiosInstance, name: string): void => {
+  const record = (config: TracedConfig | undefined, status: string | number) => {
+    if (!config?.startedAt) {
+      return;
+    }
+    const duration = Date.now() - config.startedAt;
+    upstreamRequests.inc({ client: name, status });
+    upstreamDuration.observe({ client: name }, duration / 1000);
+
+    const context = storage.getStore();
+    if (context) {
+      context.upstreamMs += duration;
+      context.upstreamRequests++;
+    }
+  };
+
+  client.interceptors.request.use((config: TracedConfig) => {
+    const requestId = getRequestId();
+    if (requestId) {
+      config.headers.set(REQUEST_ID_HEADER, requestId);
+    }
+    config.startedAt = Date.now();
+    return config;
+  });
+
+  client.interceptors.response.use(
+    response => {
+      record(response.config, response.status);
+      return response;
+    },
+    error => {
+      const status = error?.response?.status || error?.code || 'error';
+      record(error?.config, status);
+      if (error?.config?.startedAt) {
+        recordUpstreamError({
+          timestamp: new Date().toISOString(),
+          client: name,
+          method: String(error.config.method || 'get').toUpperCase(),
+          url: error.config.url || '',
+          status,
+          message: error.message,
+          requestId: getRequestId()
+        });
+      }
+      throw error;
+    }
+  );
+};
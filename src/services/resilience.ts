@@ -0,0 +1,222 @@
+import { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { getConfig } from '../config';
+import { logger } from './logger';
+
+export const DEFAULT_MAX_RETRIES = 3;
+export const DEFAULT_RETRY_BASE_MS = 250;
+// Rate limit resets further away than this are passed on instead of waited for
+export const DEFAULT_MAX_RETRY_WAIT_MS = 10000;
+export const DEFAULT_BREAKER_THRESHOLD = 5;
+export const DEFAULT_BREAKER_COOLDOWN = 30; // seconds
+
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerStatus {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  // When an open breaker lets the next trial request through
+  retryAt: string | null;
+}
+
+interface ResilienceOptions {
+  maxRetries: number;
+  retryBaseMs: number;
+  maxRetryWaitMs: number;
+  breakerThreshold: number;
+  breakerCooldownMs: number;
+}
+
+interface RetryableConfig extends InternalAxiosRequestConfig {
+  retryAttempt?: number;
+}
+
+// Thrown instead of calling an upstream whose breaker is open
+export class CircuitOpenError extends Error {
+  constructor(readonly breaker: string, readonly retryAt: number) {
+    super(`Circuit breaker for ${breaker} is open`);
+  }
+}
+
+// Fails fast after `threshold` consecutive upstream failures. After the cooldown a single
+// trial request is let through: success closes the breaker, failure opens it again.
+export class CircuitBreaker {
+  readonly name: string;
+  private threshold: number;
+  private cooldownMs: number;
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(name: string, threshold: number, cooldownMs: number) {
+    this.name = name;
+    this.threshold = threshold;
+    this.cooldownMs = cooldownMs;
+  }
+
+  get retryAt(): number {
+    return this.openedAt + this.cooldownMs;
+  }
+
+  // Whether a new request may go upstream
+  allowRequest(): boolean {
+    if (this.state === 'open' && Date.now() >= this.retryAt) {
+      this.state = 'half-open';
+      this.trialInFlight = false;
+    }
+    if (this.state === 'half-open') {
+      if (this.trialInFlight) {
+        return false;
+      }
+      this.trialInFlight = true;
+      return true;
+    }
+    return this.state === 'closed';
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      logger.info('Circuit breaker closed', { breaker: this.name });
+    }
+    this.state = 'closed';
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.state === 'half-open' || (this.state === 'closed' && this.failures >= this.threshold)) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      logger.error('Circuit breaker opened', { breaker: this.name, failures: this.failures });
+    }
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    const open = this.state !== 'closed';
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.failures,
+      openedAt: open ? new Date(this.openedAt).toISOString() : null,
+      retryAt: open ? new Date(this.retryAt).toISOString() : null
+    };
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+export const getCircuitBreakerStatus = (): CircuitBreakerStatus[] => {
+  return Array.from(breakers.values()).map(breaker => breaker.getStatus());
+};
+
+// UPSTREAM_MAX_RETRIES, UPSTREAM_RETRY_BASE_MS, UPSTREAM_MAX_RETRY_WAIT_MS,
+// UPSTREAM_BREAKER_THRESHOLD and UPSTREAM_BREAKER_COOLDOWN (seconds)
+const readOptions = (): ResilienceOptions => {
+  const { upstream } = getConfig();
+  return {
+    maxRetries: upstream.maxRetries,
+    retryBaseMs: upstream.retryBaseMs,
+    maxRetryWaitMs: upstream.maxRetryWaitMs,
+    breakerThreshold: upstream.breakerThreshold,
+    breakerCooldownMs: upstream.breakerCooldown * 1000
+  };
+};
+
+// Timeouts, connection errors, 429 and 5xx responses
+const isTransientFailure = (error: AxiosError): boolean => {
+  return !error.response || RETRYABLE_STATUSES.includes(error.response.status);
+};
+
+// Milliseconds the upstream asked us to wait: X-Contentful-RateLimit-Reset (seconds)
+// or Retry-After (seconds or an HTTP date)
+const requestedWait = (error: AxiosError): number | null => {
+  const headers = error.response?.headers || {};
+  const reset = Number(headers['x-contentful-ratelimit-reset']);
+  if (headers['x-contentful-ratelimit-reset'] !== undefined && Number.isFinite(reset)) {
+    return Math.max(0, reset) * 1000;
+  }
+
+  const retryAfter = headers['retry-after'];
+  if (retryAfter === undefined) {
+    return null;
+  }
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds) * 1000;
+  }
+  const date = Date.parse(String(retryAfter));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// Delay before the next attempt, or null when the request shouldn't be retried
+const retryDelay = (error: AxiosError, attempt: number, options: ResilienceOptions): number | null => {
+  const requested = requestedWait(error);
+  if (requested !== null) {
+    // A little jitter so waiting requests don't all hit the reset at once
+    return requested > options.maxRetryWaitMs ? null : requested + Math.random() * options.retryBaseMs;
+  }
+
+  // Exponential backoff with equal jitter
+  const backoff = Math.min(options.maxRetryWaitMs, options.retryBaseMs * 2 ** attempt);
+  return backoff / 2 + Math.random() * (backoff / 2);
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Retry idempotent GETs on transient failures and guard the client with a circuit breaker
+export const applyResilience = (client: AxiosInstance, name: string): void => {
+  const options = readOptions();
+  const breaker = new CircuitBreaker(name, options.breakerThreshold, options.breakerCooldownMs);
+  breakers.set(name, breaker);
+
+  client.interceptors.request.use((config: RetryableConfig) => {
+    // Retries belong to a request the breaker already let through
+    if (!config.retryAttempt && !breaker.allowRequest()) {
+      throw new CircuitOpenError(name, breaker.retryAt);
+    }
+    return config;
+  });
+
+  client.interceptors.response.use(
+    response => {
+      breaker.recordSuccess();
+      return response;
+    },
+    async (error: any) => {
+      if (error instanceof CircuitOpenError) {
+        throw error;
+      }
+
+      const config: RetryableConfig | undefined = error.config;
+      const attempt = config?.retryAttempt || 0;
+      if (config && config.method === 'get' && isTransientFailure(error) && attempt < options.maxRetries) {
+        const delay = retryDelay(error, attempt, options);
+        if (delay !== null) {
+          logger.warn('Retrying upstream request', {
+            upstream: name,
+            url: config.url,
+            delayMs: Math.round(delay),
+            reason: error.response?.status || error.code
+          });
+          await sleep(delay);
+          config.retryAttempt = attempt + 1;
+          return client.request(config);
+        }
+      }
+
+      // 4xx answers (other than 429) mean the upstream itself is healthy
+      if (isTransientFailure(error)) {
+        breaker.recordFailure();
+      } else {
+        breaker.recordSuccess();
+      }
+      throw error;
+    }
+  );
+};
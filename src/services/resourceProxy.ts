@@ -0,0 +1,334 @@
+import { Request, Response, RequestHandler } from 'express';
+import { AxiosResponse } from 'axios';
+import { getConfig } from '../config';
+import {
+  ContentfulUpstream,
+  getDefaultUpstream,
+  getSpaceBaseUrl,
+  getSpaceUpstream,
+  getUpstream,
+  getUpstreamClient
+} from './upstreams';
+import { CacheStore } from './cacheStore';
+import { generateCacheKey } from './cacheKeys';
+import { transformContentfulUrls } from './urlTransform';
+import { fetchAndCache, readCache, revalidateInBackground } from './staleCache';
+import { isInFlight } from './coalescer';
+import { logger } from './logger';
+import { ResponseOption } from './responseOptions';
+import { QueryPolicy, checkQueryPolicy } from './queryPolicy';
+import { normalizeQuery } from './querySchema';
+import { CircuitOpenError } from './resilience';
+import { ResponseValidators, computeValidators, sendWithValidators } from './httpValidators';
+
+export interface ResourceDefinition {
+  // Contentful path below the environment (or below the space for spaceLevel
+  // resources), using Express route params, e.g. '/entries/:entryId'
+  path: string;
+  // Human readable name used in logs and error messages, e.g. 'entry'
+  description: string;
+  // Route param holding the item ID, for single-item resources
+  idParam?: string;
+  // Responses are cached unless this is false
+  cache?: boolean;
+  // Resource lives on the space rather than an environment (e.g. /environments)
+  spaceLevel?: boolean;
+  // Cache-Control sent to browsers and CDNs, overridable with CACHE_CONTROL_<RESOURCE>
+  cacheControl?: string;
+  // Proxy-side output options available on this resource
+  options?: ResponseOption[];
+  // Contentful path to call when it differs from the route path (named routes)
+  upstreamPath?: string;
+  // Fixed Contentful query for named routes; clients can then only add option params
+  query?: (req: Request) => Record<string, any>;
+  // Query params and bounds accepted from clients
+  queryPolicy?: () => QueryPolicy;
+  // Collection results without items are answered with a 404 (lookups by slug)
+  notFoundWhenEmpty?: boolean;
+  // Answers the upstream query without calling Contentful (the sync mirror), or returns null
+  localQuery?: (upstream: ContentfulUpstream, upstreamQuery: Record<string, string>) => any | null;
+}
+
+export const DEFAULT_CACHE_CONTROL = 'public, max-age=60, s-maxage=300';
+export const UNCACHED_CACHE_CONTROL = 'no-cache';
+
+// Where a route takes its upstream from: the full /spaces/:spaceId/... path or the default upstream
+export type ResourceScope = 'full' | 'short';
+
+// Express route for a resource in the given scope
+export const resourceRoutePath = (definition: ResourceDefinition, scope: ResourceScope): string => {
+  if (scope === 'short') {
+    return definition.path;
+  }
+  return definition.spaceLevel
+    ? `/spaces/:spaceId${definition.path}`
+    : `/spaces/:spaceId/environments/:environment${definition.path}`;
+};
+
+// First path segment, e.g. entries, content_types or content
+const resourceType = (definition: ResourceDefinition): string => definition.path.split('/')[1];
+
+// Cache-Control for a resource: CACHE_CONTROL_ENTRIES, CACHE_CONTROL_CONTENT_TYPES, ...
+export const getCacheControl = (definition: ResourceDefinition): string => {
+  const resource = resourceType(definition);
+  const fallback = definition.cache === false ? UNCACHED_CACHE_CONTROL : DEFAULT_CACHE_CONTROL;
+  return getConfig().cache.cacheControl[resource] || definition.cacheControl || fallback;
+};
+
+// Preview responses keep the private, no-store header set by the preview middleware
+const setCacheControl = (res: Response, definition: ResourceDefinition, preview: boolean) => {
+  if (!preview) {
+    res.set('Cache-Control', getCacheControl(definition));
+  }
+};
+
+// Split the request query into what goes to Contentful and the options the proxy applies
+const prepareOptions = (definition: ResourceDefinition, query: Record<string, any>) => {
+  const options = definition.options || [];
+  const upstreamQuery: Record<string, any> = { ...query };
+  const requested: ResponseOption[] = [];
+
+  for (const option of options) {
+    const present = option.params.some(param => param in query);
+    option.params.forEach(param => delete upstreamQuery[param]);
+    if (!present) {
+      continue;
+    }
+
+    const error = option.validate ? option.validate(query) : null;
+    if (error) {
+      return { upstreamQuery, keyQuery: upstreamQuery, requested, error };
+    }
+    if (option.isRequested(query)) {
+      requested.push(option);
+    }
+  }
+
+  // Keyed on the upstream query and the canonical params of requested options only, so
+  // ignored or no-op option params (format=raw, depth without resolve) share one entry
+  const keyQuery: Record<string, string> = { ...upstreamQuery };
+  requested.forEach(option => Object.assign(keyQuery, option.cacheKeyParams(query)));
+
+  requested.forEach(option => option.prepareQuery?.(upstreamQuery, query));
+  return { upstreamQuery, keyQuery, requested, error: null };
+};
+
+const optionParams = (definition: ResourceDefinition): string[] => {
+  return (definition.options || []).flatMap(option => option.params);
+};
+
+// The client's query, or a named route's fixed query plus the client's option params
+const requestQuery = (definition: ResourceDefinition, req: Request): Record<string, any> => {
+  if (!definition.query) {
+    return req.query;
+  }
+
+  const query: Record<string, any> = {};
+  for (const param of optionParams(definition)) {
+    if (req.query[param] !== undefined) {
+      query[param] = req.query[param];
+    }
+  }
+  return { ...query, ...definition.query(req) };
+};
+
+// Substitute route params into the resource path
+const buildUpstreamPath = (definition: ResourceDefinition, req: Request): string => {
+  return (definition.upstreamPath || definition.path).replace(/:(\w+)/g, (_, name: string) => encodeURIComponent(req.params[name]));
+};
+
+// Cache key prefix matching the route the request came in on
+const cacheKeyScope = (definition: ResourceDefinition, scope: ResourceScope, req: Request): string => {
+  if (scope === 'short') {
+    return '';
+  }
+  return definition.spaceLevel
+    ? `/spaces/${req.params.spaceId}`
+    : `/spaces/${req.params.spaceId}/environments/${req.params.environment}`;
+};
+
+const resolveUpstream = (definition: ResourceDefinition, scope: ResourceScope, req: Request): ContentfulUpstream | null => {
+  if (scope === 'short') {
+    return getDefaultUpstream();
+  }
+  return definition.spaceLevel
+    ? getSpaceUpstream(req.params.spaceId)
+    : getUpstream(req.params.spaceId, req.params.environment);
+};
+
+// Reject space/environment pairs that are not in the upstream registry
+const sendUnknownUpstream = (req: Request, res: Response) => {
+  const { spaceId, environment } = req.params;
+  return res.status(404).json({
+    error: 'Unknown Contentful Environment',
+    message: environment
+      ? `Space "${spaceId}" with environment "${environment}" is not configured on this proxy`
+      : `Space "${spaceId}" is not configured on this proxy`
+  });
+};
+
+const sendBadRequest = (res: Response, message: string) => {
+  return res.status(400).json({
+    error: 'Bad Request',
+    message
+  });
+};
+
+// Reject preview requests for upstreams without a preview token
+const sendPreviewUnavailable = (res: Response) => {
+  return res.status(403).json({
+    error: 'Preview Not Available',
+    message: 'Contentful Preview API is not configured for this space/environment'
+  });
+};
+
+// Generic handler that proxies one Contentful resource with caching and URL rewriting
+export const proxyResource = (cache: CacheStore, definition: ResourceDefinition, scope: ResourceScope): RequestHandler => {
+  const cacheable = definition.cache !== false;
+
+  return async (req: Request, res: Response) => {
+    const itemId = definition.idParam ? req.params[definition.idParam] : undefined;
+    const label = itemId ? `${definition.description} ${itemId}` : definition.description;
+    // Cache results are counted per resource type in the metrics
+    res.locals.resource = resourceType(definition);
+
+    try {
+      const upstream = resolveUpstream(definition, scope, req);
+      if (!upstream) {
+        if (scope === 'full') {
+          return sendUnknownUpstream(req, res);
+        }
+        return res.status(500).json({
+          error: 'Server Configuration Error',
+          message: 'Contentful client not configured'
+        });
+      }
+
+      const preview: boolean = res.locals.preview;
+      const contentfulClient = getUpstreamClient(upstream, preview);
+      if (!contentfulClient) {
+        return sendPreviewUnavailable(res);
+      }
+
+      // Validated, canonically ordered query: unknown params never reach Contentful or the cache
+      const { query, error: queryError } = normalizeQuery(requestQuery(definition, req), optionParams(definition));
+      if (queryError) {
+        return sendBadRequest(res, queryError);
+      }
+      const policyError = definition.queryPolicy
+        ? checkQueryPolicy(definition.queryPolicy(), query, optionParams(definition))
+        : null;
+      if (policyError) {
+        return sendBadRequest(res, policyError);
+      }
+      const { upstreamQuery, keyQuery, requested, error: optionError } = prepareOptions(definition, query);
+      if (optionError) {
+        return sendBadRequest(res, optionError);
+      }
+      // Options can raise what is sent upstream (resolve=true raises include to depth),
+      // so the policy applies to the final upstream query as well
+      const upstreamPolicyError = definition.queryPolicy ? checkQueryPolicy(definition.queryPolicy(), upstreamQuery) : null;
+      if (upstreamPolicyError) {
+        return sendBadRequest(res, `${upstreamPolicyError} (after applying ${requested.map(option => option.name).join(', ')})`);
+      }
+
+      // Requested options are part of the key, so reshaped output is cached apart from raw output.
+      // Named routes share keys with the equivalent /entries query, so webhooks invalidate them too.
+      const upstreamPath = buildUpstreamPath(definition, req);
+      const cacheKey = generateCacheKey(`${cacheKeyScope(definition, scope, req)}${upstreamPath}`.slice(1), keyQuery);
+      const useCache = cacheable && !preview;
+
+      // Transform URLs in the response data, then apply requested output options
+      const shapeResponse = (data: any) => requested.reduce(
+        (shaped, option) => option.transform(shaped, query),
+        transformContentfulUrls(data)
+      );
+
+      const fetchFromContentful = async () => {
+        const response: AxiosResponse = await contentfulClient.get(upstreamPath, {
+          params: upstreamQuery,
+          ...(definition.spaceLevel ? { baseURL: getSpaceBaseUrl(contentfulClient) } : {})
+        });
+        return shapeResponse(response.data);
+      };
+
+      const send = (data: any, validators: ResponseValidators) => {
+        if (definition.notFoundWhenEmpty && Array.isArray(data?.items) && data.items.length === 0) {
+          return res.status(404).json({
+            error: 'Not Found',
+            message: `No ${definition.description} found for "${itemId}"`
+          });
+        }
+        return sendWithValidators(req, res, data, validators);
+      };
+
+      // Queries the sync mirror can answer never reach Contentful (preview needs draft content)
+      const local = !preview && definition.localQuery ? definition.localQuery(upstream, upstreamQuery) : null;
+      if (local) {
+        const data = shapeResponse(local);
+        res.set('X-Cache', 'MIRROR');
+        setCacheControl(res, definition, preview);
+        return send(data, computeValidators(data));
+      }
+
+      // Check cache first (preview responses are never cached)
+      const cached = useCache ? await readCache(cache, cacheKey) : null;
+      if (cached) {
+        if (cached.status === 'STALE') {
+          logger.debug('Serving stale copy while revalidating', { resource: label });
+          revalidateInBackground(cache, cacheKey, fetchFromContentful, label);
+        } else {
+          logger.debug('Cache hit', { resource: label });
+        }
+        res.set('X-Cache', cached.status);
+        setCacheControl(res, definition, preview);
+        return send(cached.data, cached.validators);
+      }
+
+      // Preview and uncached resources go straight to Contentful
+      if (!useCache) {
+        logger.debug('Fetching from Contentful', { resource: label });
+        const data = await fetchFromContentful();
+        res.set('X-Cache', 'BYPASS');
+        setCacheControl(res, definition, preview);
+        return send(data, computeValidators(data));
+      }
+
+      // Concurrent misses for the same key share one upstream call
+      if (isInFlight(cacheKey)) {
+        logger.debug('Joining in-flight request', { resource: label });
+      } else {
+        logger.debug('Fetching from Contentful', { resource: label });
+      }
+      const envelope = await fetchAndCache(cache, cacheKey, fetchFromContentful);
+
+      res.set('X-Cache', 'MISS');
+      setCacheControl(res, definition, preview);
+      return send(envelope.data, envelope.validators);
+    } catch (error: any) {
+      logger.error('Error fetching from Contentful', { resource: label, status: error.response?.status, error: error.message });
+
+      // Cached copies were already served above; without one, fail fast while Contentful recovers
+      if (error instanceof CircuitOpenError) {
+        res.set('Retry-After', String(Math.max(1, Math.ceil((error.retryAt - Date.now()) / 1000))));
+        return res.status(503).json({
+          error: 'Service Unavailable',
+          message: 'Contentful API is temporarily unavailable'
+        });
+      }
+
+      if (error.response) {
+        return res.status(error.response.status).json({
+          error: 'Contentful API Error',
+          message: error.response.data?.message || `Failed to fetch ${definition.description}`,
+          status: error.response.status
+        });
+      } else {
+        return res.status(500).json({
+          error: 'Internal Server Error',
+          message: 'Failed to connect to Contentful API'
+        });
+      }
+    }
+  };
+};
@@ -0,0 +1,24 @@
+// Proxy-side output options (e.g. ?resolve=true) that reshape Contentful responses.
+// Their query params are consumed by the proxy and never forwarded upstream.
+export interface ResponseOption {
+  name: string;
+  // Query params owned by this option
+  params: string[];
+  // Whether the request asks for this option
+  isRequested(query: Record<string, any>): boolean;
+  // Error message for invalid param values, or null
+  validate?(query: Record<string, any>): string | null;
+  // Canonical values of the params that shape the output, used in the cache key when the
+  // option is requested. Params of options that are not requested never reach the key.
+  cacheKeyParams(query: Record<string, any>): Record<string, string>;
+  // Adjust the query sent to Contentful, e.g. to raise the include depth
+  prepareQuery?(upstreamQuery: Record<string, any>, query: Record<string, any>): void;
+  // Reshape the (already URL-rewritten) response body
+  transform(data: any, query: Record<string, any>): any;
+}
+
+export const isTruthyParam = (value: unknown): boolean => value === 'true' || value === '1';
+
+export const isBooleanParam = (value: unknown): boolean => {
+  return value === undefined || value === 'true' || value === 'false' || value === '1' || value === '0';
+};
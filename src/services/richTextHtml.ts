@@ -0,0 +1,296 @@
+import { getConfig } from '../config';
+import { ResponseOption } from './responseOptions';
+import { buildLookup, linkKey } from './linkResolution';
+import { rewriteUrl } from './urlTransform';
+
+export interface RenderContext {
+  // Entries and assets from the response, by link key
+  lookup: Map<string, any>;
+  // Fields are locale maps (the request used locale=*)
+  localized: boolean;
+}
+
+// Renders an embedded entry of one content type to HTML. Implementations must escape
+// every value they output (use escapeHtml / attributeUrl).
+export type EmbeddedEntryRenderer = (entry: any, context: RenderContext, inline: boolean) => string;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+export const escapeHtml = (value: unknown): string => {
+  return String(value ?? '').replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+};
+
+const SAFE_SCHEMES = ['http', 'https', 'mailto', 'tel'];
+const NAMED_ENTITIES: Record<string, string> = { colon: ':', tab: '\t', newline: '\n', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+// ASCII whitespace and C0 control characters, which browsers strip from URLs
+const URL_CONTROL_CHARACTERS = /[\u0000-\u0020\u007f]/g;
+
+const decodeEntities = (value: string): string => {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi, (entity, name: string) => {
+    if (name.startsWith('#')) {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+};
+
+// Only http(s), mailto, tel and relative URLs make it into href/src attributes. The scheme
+// is checked the way a browser reads it: entities decoded, whitespace and controls removed.
+export const attributeUrl = (url: unknown): string | null => {
+  if (typeof url !== 'string') {
+    return null;
+  }
+  const normalized = decodeEntities(url).replace(URL_CONTROL_CHARACTERS, '');
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(normalized);
+  if (scheme && !SAFE_SCHEMES.includes(scheme[1].toLowerCase())) {
+    return null;
+  }
+  return escapeHtml(url.trim().replace(/[\u0000-\u001f\u007f]/g, ''));
+};
+
+// Field value of an entry or asset, taking the first locale of locale=* responses
+export const fieldValue = (item: any, name: string, context: RenderContext): any => {
+  const value = item?.fields?.[name];
+  if (context.localized && value && typeof value === 'object' && !Array.isArray(value)) {
+    return value[Object.keys(value)[0]];
+  }
+  return value;
+};
+
+// Linked item: already inlined (resolve=true) or looked up from includes
+export const resolveTarget = (target: any, context: RenderContext): any => {
+  if (!target?.sys) {
+    return null;
+  }
+  if (target.sys.type === 'Entry' || target.sys.type === 'Asset') {
+    return target;
+  }
+  if (target.sys.type === 'Link') {
+    return context.lookup.get(linkKey(target.sys.linkType, target.sys.id)) || null;
+  }
+  return null;
+};
+
+// Asset URL with the same rewriting as transformContentfulUrls()
+export const assetUrl = (asset: any, context: RenderContext): string | null => {
+  const file = fieldValue(asset, 'file', context);
+  if (!file || typeof file.url !== 'string') {
+    return null;
+  }
+  const url = rewriteUrl(file.url, 'file');
+  return url.startsWith('//') ? `https:${url}` : url;
+};
+
+const renderAsset = (asset: any, context: RenderContext): string => {
+  const url = attributeUrl(assetUrl(asset, context));
+  if (!url) {
+    return '';
+  }
+
+  const title = escapeHtml(fieldValue(asset, 'title', context) || '');
+  const contentType: string = fieldValue(asset, 'file', context)?.contentType || '';
+  if (contentType.startsWith('image/')) {
+    return `<img src="${url}" alt="${escapeHtml(fieldValue(asset, 'description', context) || title)}" />`;
+  }
+  if (contentType.startsWith('video/')) {
+    return `<video controls src="${url}"></video>`;
+  }
+  if (contentType.startsWith('audio/')) {
+    return `<audio controls src="${url}"></audio>`;
+  }
+  return `<a href="${url}">${title || url}</a>`;
+};
+
+// Built-in renderers for SoundTools content types
+export const EMBEDDED_ENTRY_RENDERERS: Record<string, EmbeddedEntryRenderer> = {
+  product: (entry, context, inline) => {
+    const slug = fieldValue(entry, 'slug', context);
+    const title = escapeHtml(fieldValue(entry, 'title', context) || fieldValue(entry, 'name', context) || '');
+    const link = slug ? `<a href="/products/${escapeHtml(encodeURIComponent(slug))}">${title}</a>` : title;
+    return inline
+      ? `<span class="embedded-product">${link}</span>`
+      : `<div class="embedded-product">${link}</div>`;
+  },
+  soundSample: (entry, context) => {
+    const title = escapeHtml(fieldValue(entry, 'title', context) || '');
+    const audio = resolveTarget(fieldValue(entry, 'audio', context) || fieldValue(entry, 'file', context), context);
+    const url = audio ? attributeUrl(assetUrl(audio, context)) : null;
+    const player = url ? `<audio controls preload="none" src="${url}"></audio>` : '';
+    return `<figure class="embedded-sound-sample">${player}<figcaption>${title}</figcaption></figure>`;
+  }
+};
+
+// Templates from RICH_TEXT_ENTRY_TEMPLATES, e.g. {"product": "<a href=\"/p/{{slug}}\">{{title}}</a>"}.
+// Placeholders are dot paths into the entry's fields; linked items are followed and values escaped.
+const loadTemplateRenderers = (): Record<string, EmbeddedEntryRenderer> => {
+  const renderers: Record<string, EmbeddedEntryRenderer> = {};
+  for (const [contentType, template] of Object.entries(getConfig().richTextEntryTemplates)) {
+    renderers[contentType] = (entry, context) => template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => {
+      const [first, ...rest] = path.split('.');
+      let value: any = fieldValue(entry, first, context);
+      for (const segment of rest) {
+        value = resolveTarget(value, context) || value;
+        value = value?.fields ? fieldValue(value, segment, context) : value?.[segment];
+      }
+      return escapeHtml(typeof value === 'string' && path.endsWith('file.url') ? rewriteUrl(value, 'file') : value);
+    });
+  }
+  return renderers;
+};
+
+let entryRenderers: Record<string, EmbeddedEntryRenderer> | null = null;
+
+const getEntryRenderers = (): Record<string, EmbeddedEntryRenderer> => {
+  if (!entryRenderers) {
+    entryRenderers = { ...EMBEDDED_ENTRY_RENDERERS, ...loadTemplateRenderers() };
+  }
+  return entryRenderers;
+};
+
+const renderEmbeddedEntry = (target: any, context: RenderContext, inline: boolean): string => {
+  const entry = resolveTarget(target, context);
+  if (!entry) {
+    return '';
+  }
+
+  const contentType = entry.sys.contentType?.sys?.id;
+  const renderer = contentType ? getEntryRenderers()[contentType] : undefined;
+  if (renderer) {
+    return renderer(entry, context, inline);
+  }
+
+  const tag = inline ? 'span' : 'div';
+  return `<${tag} class="embedded-entry" data-entry-id="${escapeHtml(entry.sys.id)}" data-content-type="${escapeHtml(contentType || '')}"></${tag}>`;
+};
+
+const MARK_TAGS: Record<string, string> = {
+  bold: 'strong',
+  italic: 'em',
+  underline: 'u',
+  code: 'code',
+  superscript: 'sup',
+  subscript: 'sub',
+  strikethrough: 's'
+};
+
+const BLOCK_TAGS: Record<string, string> = {
+  'document': '',
+  'paragraph': 'p',
+  'heading-1': 'h1',
+  'heading-2': 'h2',
+  'heading-3': 'h3',
+  'heading-4': 'h4',
+  'heading-5': 'h5',
+  'heading-6': 'h6',
+  'ordered-list': 'ol',
+  'unordered-list': 'ul',
+  'list-item': 'li',
+  'blockquote': 'blockquote',
+  'table': 'table',
+  'table-row': 'tr',
+  'table-header-cell': 'th',
+  'table-cell': 'td'
+};
+
+const renderText = (node: any): string => {
+  return (node.marks || []).reduce((html: string, mark: any) => {
+    const tag = MARK_TAGS[mark?.type];
+    return tag ? `<${tag}>${html}</${tag}>` : html;
+  }, escapeHtml(node.value).replace(/\n/g, '<br />'));
+};
+
+export const renderNode = (node: any, context: RenderContext): string => {
+  if (!node || typeof node !== 'object') {
+    return '';
+  }
+
+  const children = () => (node.content || []).map((child: any) => renderNode(child, context)).join('');
+
+  switch (node.nodeType) {
+    case 'text':
+      return renderText(node);
+    case 'hr':
+      return '<hr />';
+    case 'hyperlink': {
+      const href = attributeUrl(node.data?.uri);
+      return href ? `<a href="${href}">${children()}</a>` : children();
+    }
+    case 'asset-hyperlink': {
+      const asset = resolveTarget(node.data?.target, context);
+      const href = asset ? attributeUrl(assetUrl(asset, context)) : null;
+      return href ? `<a href="${href}">${children()}</a>` : children();
+    }
+    case 'entry-hyperlink': {
+      const entry = resolveTarget(node.data?.target, context);
+      const slug = entry ? fieldValue(entry, 'slug', context) : null;
+      return slug
+        ? `<a href="/${escapeHtml(encodeURIComponent(slug))}" data-entry-id="${escapeHtml(entry.sys.id)}">${children()}</a>`
+        : children();
+    }
+    case 'embedded-entry-block':
+      return renderEmbeddedEntry(node.data?.target, context, false);
+    case 'embedded-entry-inline':
+      return renderEmbeddedEntry(node.data?.target, context, true);
+    case 'embedded-asset-block': {
+      const asset = resolveTarget(node.data?.target, context);
+      return asset ? renderAsset(asset, context) : '';
+    }
+    default: {
+      const tag = BLOCK_TAGS[node.nodeType];
+      if (tag === undefined) {
+        // Unknown node types are dropped rather than rendered unescaped
+        return '';
+      }
+      return tag ? `<${tag}>${children()}</${tag}>` : children();
+    }
+  }
+};
+
+const isDocument = (value: any): boolean => {
+  return !!value && typeof value === 'object' && value.nodeType === 'document' && Array.isArray(value.content);
+};
+
+// Replace every Rich Text document in a value with its HTML
+const replaceDocuments = (value: any, context: RenderContext): any => {
+  if (isDocument(value)) {
+    return renderNode(value, context);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => replaceDocuments(item, context));
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const replaced: any = {};
+  for (const [key, child] of Object.entries(value)) {
+    // sys never holds rich text
+    replaced[key] = key === 'sys' ? child : replaceDocuments(child, context);
+  }
+  return replaced;
+};
+
+// Render every Rich Text field in an entry or collection response to HTML
+export const renderRichText = (data: any, localized: boolean): any => {
+  const context: RenderContext = { lookup: buildLookup(data), localized };
+  return replaceDocuments(data, context);
+};
+
+// ?richText=html on entry routes
+export const richTextHtmlOption: ResponseOption = {
+  name: 'richText',
+  params: ['richText'],
+  isRequested: query => query.richText === 'html',
+  validate: query => (query.richText === 'html' || query.richText === 'json'
+    ? null
+    : 'Parameter "richText" must be "html" or "json"'),
+  cacheKeyParams: () => ({ richText: 'html' }),
+  transform: (data, query) => renderRichText(data, query.locale === '*')
+};
@@ -0,0 +1,125 @@
+import { getConfig } from '../config';
+import { logger } from './logger';
+import { CacheStore } from './cacheStore';
+import { coalesce, isInFlight } from './coalescer';
+import { computeValidators, ResponseValidators } from './httpValidators';
+import { collectReferencedIds } from './invalidation';
+
+// Responses are fresh for this long, then served stale while being refreshed
+export const DEFAULT_FRESH_TTL = 5 * 60; // 5 minutes in seconds
+// Stale copies are kept this long so they can be served while Contentful is slow or down
+export const DEFAULT_STALE_TTL = 5 * 24 * 60 * 60; // 5 days in seconds
+
+export type CacheStatus = 'HIT' | 'MISS' | 'STALE' | 'BYPASS';
+
+// What the proxy stores under each cache key
+export interface CacheEnvelope<T = any> {
+  data: T;
+  storedAt: number;
+  freshUntil: number;
+  // HTTP validators computed once when the response is stored
+  validators: ResponseValidators;
+}
+
+export interface CacheLookup<T = any> {
+  data: T;
+  validators: ResponseValidators;
+  status: 'HIT' | 'STALE';
+}
+
+export const getFreshTtl = (): number => getConfig().cache.freshTtl;
+export const getStaleTtl = (): number => getConfig().cache.staleTtl;
+
+const isEnvelope = (value: any): value is CacheEnvelope => {
+  return !!value && typeof value === 'object' && 'data' in value && typeof value.freshUntil === 'number'
+    && !!value.validators;
+};
+
+// Look up a key, reporting whether the copy is still fresh. Backend errors are
+// treated as a miss so that a cache outage never takes the proxy down.
+export const readCache = async <T = any>(cache: CacheStore, key: string): Promise<CacheLookup<T> | null> => {
+  let value: CacheEnvelope<T> | undefined;
+  try {
+    value = await cache.get<CacheEnvelope<T>>(key);
+  } catch (error: any) {
+    logger.error('Cache read failed', { key, error: error.message });
+    return null;
+  }
+
+  if (!isEnvelope(value)) {
+    return null;
+  }
+
+  return {
+    data: value.data,
+    validators: value.validators,
+    status: Date.now() < value.freshUntil ? 'HIT' : 'STALE'
+  };
+};
+
+// Store data with a fresh window; the key itself lives for the whole stale window
+export const writeCache = async <T = any>(cache: CacheStore, key: string, data: T): Promise<CacheEnvelope<T>> => {
+  const now = Date.now();
+  const freshTtl = getFreshTtl();
+  const envelope: CacheEnvelope<T> = {
+    data,
+    storedAt: now,
+    freshUntil: now + freshTtl * 1000,
+    validators: computeValidators(data)
+  };
+
+  try {
+    const ttl = Math.max(getStaleTtl(), freshTtl);
+    await cache.set(key, envelope, ttl);
+    // Lets webhooks find this key by the IDs of the items it contains
+    await cache.addReferences(key, Array.from(collectReferencedIds(data)), ttl);
+  } catch (error: any) {
+    logger.error('Cache write failed', { key, error: error.message });
+  }
+  return envelope;
+};
+
+// Fetch a key from upstream and cache the result. Concurrent callers for the same
+// key share one upstream call, and only that call writes to the cache.
+export const fetchAndCache = <T = any>(cache: CacheStore, key: string, fetcher: () => Promise<T>): Promise<CacheEnvelope<T>> => {
+  return coalesce(key, async () => writeCache(cache, key, await fetcher()));
+};
+
+// Network errors, 5xx responses and rate limiting may clear up, so the stale copy is worth
+// keeping; any other answer (the item was unpublished or deleted) means it is outdated for good
+const isTransientFailure = (error: any): boolean => {
+  const status = error?.response?.status;
+  return status === undefined || status >= 500 || status === 429;
+};
+
+// Refresh a stale key in the background. Network errors and 5xx responses leave the
+// stale copy in place, so it keeps being served until Contentful recovers or the stale
+// window ends. A 404 and other client errors evict the key.
+export const revalidateInBackground = <T = any>(
+  cache: CacheStore,
+  key: string,
+  fetcher: () => Promise<T>,
+  label: string = key
+): void => {
+  if (isInFlight(key)) {
+    return;
+  }
+
+  fetchAndCache(cache, key, fetcher)
+    .then(() => {
+      logger.debug('Revalidated', { resource: label });
+    })
+    .catch(async (error: any) => {
+      if (isTransientFailure(error)) {
+        logger.warn('Revalidation failed, serving stale copy', { resource: label, error: error.message });
+        return;
+      }
+
+      try {
+        await cache.del(key);
+        logger.info('Evicted stale copy after revalidation', { resource: label, status: error.response.status });
+      } catch (deleteError: any) {
+        logger.error('Cache delete failed', { key, error: deleteError.message });
+      }
+    });
+};
@@ -0,0 +1,283 @@
+import fs from 'fs';
+import path from 'path';
+import { getConfig } from '../config';
+import { logger } from './logger';
+import { ContentfulUpstream, getDefaultUpstream } from './upstreams';
+
+export const DEFAULT_SYNC_INTERVAL = 60; // seconds
+
+export interface MirrorLocale {
+  code: string;
+  default: boolean;
+  fallbackCode: string | null;
+}
+
+// What is kept on disk between restarts
+export interface MirrorSnapshot {
+  syncToken: string;
+  syncedAt: string;
+  locales: MirrorLocale[];
+  // Items as returned by the Sync API: fields are locale maps
+  entries: any[];
+  assets: any[];
+}
+
+export interface SyncMirrorOptions {
+  upstream: ContentfulUpstream;
+  // Directory the snapshot and sync token are saved in
+  directory: string;
+  // Seconds between delta syncs
+  interval: number;
+}
+
+export interface SyncMirrorStatus {
+  upstream: string;
+  ready: boolean;
+  syncing: boolean;
+  entries: number;
+  assets: number;
+  lastSyncAt: string | null;
+  lastError: string | null;
+}
+
+// sync_token of a nextPageUrl / nextSyncUrl
+const syncTokenOf = (url: string): string => {
+  const token = new URL(url).searchParams.get('sync_token');
+  if (!token) {
+    throw new Error(`Sync URL without sync_token: ${url}`);
+  }
+  return token;
+};
+
+// Full copy of one space/environment, kept current with Contentful's Sync API: an
+// initial sync (or the saved snapshot) at startup, then delta syncs on a timer and
+// whenever a webhook asks for one.
+export class SyncMirror {
+  readonly upstream: ContentfulUpstream;
+  private snapshotFile: string;
+  private interval: number;
+  private syncToken: string | null = null;
+  private locales: MirrorLocale[] = [];
+  private entries = new Map<string, any>();
+  private assets = new Map<string, any>();
+  private lastSyncAt: string | null = null;
+  private lastError: string | null = null;
+  private running: Promise<void> | null = null;
+  // Sync to run once the running one finishes
+  private queued: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: SyncMirrorOptions) {
+    this.upstream = options.upstream;
+    this.interval = options.interval;
+    this.snapshotFile = path.join(
+      options.directory,
+      `${options.upstream.spaceId}-${options.upstream.environment}.json`
+    );
+    fs.mkdirSync(options.directory, { recursive: true });
+    this.loadSnapshot();
+  }
+
+  get ready(): boolean {
+    return this.syncToken !== null;
+  }
+
+  getEntries(): any[] {
+    return Array.from(this.entries.values());
+  }
+
+  getAssets(): any[] {
+    return Array.from(this.assets.values());
+  }
+
+  getItem(type: 'Entry' | 'Asset', id: string): any | undefined {
+    return type === 'Entry' ? this.entries.get(id) : this.assets.get(id);
+  }
+
+  getLocales(): MirrorLocale[] {
+    return this.locales;
+  }
+
+  getStatus(): SyncMirrorStatus {
+    return {
+      upstream: this.upstream.key,
+      ready: this.ready,
+      syncing: this.running !== null,
+      entries: this.entries.size,
+      assets: this.assets.size,
+      lastSyncAt: this.lastSyncAt,
+      lastError: this.lastError
+    };
+  }
+
+  start(): void {
+    this.requestSync();
+    this.timer = setInterval(() => this.requestSync(), this.interval * 1000);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Run a sync now. While one is running, another runs once it finishes: the running sync
+  // may have read its pages before the change that triggered the request. Failures are
+  // logged and retried on the next tick; the current snapshot keeps being served meanwhile.
+  requestSync(): Promise<void> {
+    if (this.running) {
+      // Requests during a running sync share one follow-up sync
+      if (!this.queued) {
+        this.queued = this.running.then(() => {
+          this.queued = null;
+          return this.requestSync();
+        });
+      }
+      return this.queued;
+    }
+
+    this.running = this.sync()
+      .catch((error: any) => {
+        this.lastError = error.message;
+        logger.error('Sync failed', { upstream: this.upstream.key, error: error.message });
+      })
+      .finally(() => {
+        this.running = null;
+      });
+    return this.running;
+  }
+
+  private async sync(): Promise<void> {
+    const initial = this.syncToken === null;
+    const client = this.upstream.client;
+
+    // Locales are needed to answer single-locale queries from the locale maps
+    const localesResponse = await client.get('/locales');
+    const locales: MirrorLocale[] = (localesResponse.data.items || []).map((locale: any) => ({
+      code: locale.code,
+      default: !!locale.default,
+      fallbackCode: locale.fallbackCode || null
+    }));
+
+    let params: Record<string, string> = initial ? { initial: 'true' } : { sync_token: this.syncToken! };
+    const changes: any[] = [];
+    let nextSyncToken: string | null = null;
+
+    while (!nextSyncToken) {
+      const response = await client.get('/sync', { params });
+      changes.push(...(response.data.items || []));
+      if (response.data.nextPageUrl) {
+        params = { sync_token: syncTokenOf(response.data.nextPageUrl) };
+      } else if (response.data.nextSyncUrl) {
+        nextSyncToken = syncTokenOf(response.data.nextSyncUrl);
+      } else {
+        throw new Error('Sync response without nextPageUrl or nextSyncUrl');
+      }
+    }
+
+    // Apply only once every page arrived, so a failed sync never leaves a partial state
+    if (initial) {
+      this.entries.clear();
+      this.assets.clear();
+    }
+    for (const item of changes) {
+      this.applyChange(item);
+    }
+    this.locales = locales;
+    this.syncToken = nextSyncToken;
+    this.lastSyncAt = new Date().toISOString();
+    this.lastError = null;
+
+    if (initial || changes.length > 0) {
+      this.saveSnapshot();
+    }
+    logger.info(`${initial ? 'Initial' : 'Delta'} sync finished`, { upstream: this.upstream.key, changes: changes.length });
+  }
+
+  private applyChange(item: any): void {
+    const id = item?.sys?.id;
+    switch (item?.sys?.type) {
+      case 'Entry':
+        this.entries.set(id, item);
+        break;
+      case 'Asset':
+        this.assets.set(id, item);
+        break;
+      case 'DeletedEntry':
+        this.entries.delete(id);
+        break;
+      case 'DeletedAsset':
+        this.assets.delete(id);
+        break;
+    }
+  }
+
+  private loadSnapshot(): void {
+    if (!fs.existsSync(this.snapshotFile)) {
+      return;
+    }
+
+    try {
+      const snapshot: MirrorSnapshot = JSON.parse(fs.readFileSync(this.snapshotFile, 'utf8'));
+      this.locales = snapshot.locales;
+      snapshot.entries.forEach(entry => this.entries.set(entry.sys.id, entry));
+      snapshot.assets.forEach(asset => this.assets.set(asset.sys.id, asset));
+      this.lastSyncAt = snapshot.syncedAt;
+      this.syncToken = snapshot.syncToken;
+      logger.info('Loaded mirror snapshot', { upstream: this.upstream.key, syncedAt: snapshot.syncedAt });
+    } catch (error: any) {
+      // Start over with an initial sync
+      logger.warn('Ignoring unreadable mirror snapshot', { file: this.snapshotFile, error: error.message });
+      this.entries.clear();
+      this.assets.clear();
+    }
+  }
+
+  // Write to a temp file and rename, so a crash never leaves a truncated snapshot
+  private saveSnapshot(): void {
+    const snapshot: MirrorSnapshot = {
+      syncToken: this.syncToken!,
+      syncedAt: this.lastSyncAt!,
+      locales: this.locales,
+      entries: this.getEntries(),
+      assets: this.getAssets()
+    };
+
+    try {
+      const tempFile = `${this.snapshotFile}.${process.pid}.tmp`;
+      fs.writeFileSync(tempFile, JSON.stringify(snapshot));
+      fs.renameSync(tempFile, this.snapshotFile);
+    } catch (error: any) {
+      logger.error('Failed to save mirror snapshot', { file: this.snapshotFile, error: error.message });
+    }
+  }
+}
+
+let mirror: SyncMirror | null = null;
+
+export const getSyncMirror = (): SyncMirror | null => mirror;
+
+// Start mirroring the default upstream when SYNC_MIRROR=true
+export const startSyncMirror = (): SyncMirror | null => {
+  const { syncMirror } = getConfig();
+  if (mirror || !syncMirror.enabled) {
+    return mirror;
+  }
+
+  const upstream = getDefaultUpstream();
+  if (!upstream) {
+    logger.error('SYNC_MIRROR needs the default Contentful space to be configured');
+    return null;
+  }
+
+  mirror = new SyncMirror({
+    upstream,
+    directory: syncMirror.directory,
+    interval: syncMirror.interval
+  });
+  mirror.start();
+  logger.info('Mirroring with the Sync API', { upstream: upstream.key });
+  return mirror;
+};
@@ -0,0 +1,29 @@
+import { getConfig } from '../config';
+
+export interface UpstreamErrorEntry {
+  timestamp: string;
+  // Contentful client, e.g. cdn:space/master
+  client: string;
+  method: string;
+  url: string;
+  // HTTP status, or the network error code (ECONNABORTED, ETIMEDOUT, ...)
+  status: number | string;
+  message: string;
+  requestId?: string;
+}
+
+const recentErrors: UpstreamErrorEntry[] = [];
+
+// Keep the last HEALTH_RECENT_ERRORS failed upstream calls for /api/health/detailed
+export const recordUpstreamError = (entry: UpstreamErrorEntry): void => {
+  recentErrors.push(entry);
+  const limit = getConfig().health.recentErrors;
+  if (recentErrors.length > limit) {
+    recentErrors.splice(0, recentErrors.length - limit);
+  }
+};
+
+// Most recent upstream errors, newest first
+export const getRecentUpstreamErrors = (): UpstreamErrorEntry[] => {
+  return recentErrors.slice().reverse();
+};
@@ -0,0 +1,137 @@
+import axios, { AxiosInstance } from 'axios';
+import { getConfig } from '../config';
+import { applyResilience } from './resilience';
+import { traceUpstream } from './requestContext';
+
+// Contentful API configuration
+export const CONTENTFUL_API_BASE = 'https://cdn.contentful.com';
+export const CONTENTFUL_PREVIEW_API_BASE = 'https://preview.contentful.com';
+export const CONTENTFUL_GRAPHQL_API_BASE = 'https://graphql.contentful.com/content/v1';
+export const DEFAULT_ENVIRONMENT = 'master';
+
+export interface UpstreamDefinition {
+  spaceId: string;
+  environment?: string;
+  accessToken: string;
+  previewAccessToken?: string;
+}
+
+export interface ContentfulUpstream {
+  key: string;
+  spaceId: string;
+  environment: string;
+  client: AxiosInstance;
+  // Preview API client, only present when a preview token is configured
+  previewClient: AxiosInstance | null;
+  // GraphQL Content API clients; the preview one uses the preview token
+  graphqlClient: AxiosInstance;
+  previewGraphqlClient: AxiosInstance | null;
+}
+
+let registry: Map<string, ContentfulUpstream> | null = null;
+let defaultUpstreamKey: string | null = null;
+
+export const upstreamKey = (spaceId: string, environment: string): string => `${spaceId}/${environment}`;
+
+// `api` names the client's circuit breaker together with the upstream, e.g. cdn:space/master.
+// Tracing is registered first so that it times every attempt, including retries.
+const createClient = (api: string, apiBase: string, spaceId: string, environment: string, accessToken: string): AxiosInstance => {
+  const client = axios.create({
+    baseURL: `${apiBase}/spaces/${spaceId}/environments/${environment}`,
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json'
+    },
+    timeout: 10000 // 10 second timeout
+  });
+  const name = `${api}:${upstreamKey(spaceId, environment)}`;
+  traceUpstream(client, name);
+  applyResilience(client, name);
+  return client;
+};
+
+const createUpstream = (definition: UpstreamDefinition): ContentfulUpstream => {
+  const { spaceId, accessToken, previewAccessToken } = definition;
+  const environment = definition.environment || DEFAULT_ENVIRONMENT;
+
+  return {
+    key: upstreamKey(spaceId, environment),
+    spaceId,
+    environment,
+    client: createClient('cdn', CONTENTFUL_API_BASE, spaceId, environment, accessToken),
+    previewClient: previewAccessToken
+      ? createClient('preview', CONTENTFUL_PREVIEW_API_BASE, spaceId, environment, previewAccessToken)
+      : null,
+    graphqlClient: createClient('graphql', CONTENTFUL_GRAPHQL_API_BASE, spaceId, environment, accessToken),
+    previewGraphqlClient: previewAccessToken
+      ? createClient('graphql-preview', CONTENTFUL_GRAPHQL_API_BASE, spaceId, environment, previewAccessToken)
+      : null
+  };
+};
+
+// Build the registry on first use, from the default space (CONTENTFUL_SPACE_ID, ...) and the
+// additional space/environment pairs in CONTENTFUL_UPSTREAMS
+const loadRegistry = (): Map<string, ContentfulUpstream> => {
+  if (registry) {
+    return registry;
+  }
+
+  registry = new Map();
+
+  const { contentful } = getConfig();
+  const upstream = createUpstream({
+    spaceId: contentful.spaceId,
+    environment: contentful.environment,
+    accessToken: contentful.accessToken,
+    previewAccessToken: contentful.previewAccessToken || undefined
+  });
+  registry.set(upstream.key, upstream);
+  defaultUpstreamKey = upstream.key;
+
+  for (const definition of contentful.upstreams) {
+    const additional = createUpstream(definition);
+    registry.set(additional.key, additional);
+  }
+
+  return registry;
+};
+
+// Upstream used by the short routes (/entries, /assets, ...)
+export const getDefaultUpstream = (): ContentfulUpstream | null => {
+  const upstreams = loadRegistry();
+  return defaultUpstreamKey ? upstreams.get(defaultUpstreamKey) || null : null;
+};
+
+// Upstream for an explicit space/environment pair, or null when the pair is not allowed
+export const getUpstream = (spaceId: string, environment: string): ContentfulUpstream | null => {
+  return loadRegistry().get(upstreamKey(spaceId, environment)) || null;
+};
+
+// Upstream for space-level resources (e.g. /spaces/:spaceId/environments),
+// preferring the default upstream when it belongs to that space
+export const getSpaceUpstream = (spaceId: string): ContentfulUpstream | null => {
+  const defaultUpstream = getDefaultUpstream();
+  if (defaultUpstream && defaultUpstream.spaceId === spaceId) {
+    return defaultUpstream;
+  }
+  return listUpstreams().find(upstream => upstream.spaceId === spaceId) || null;
+};
+
+// Base URL of the space that a client talks to, without the environment segment
+export const getSpaceBaseUrl = (client: AxiosInstance): string => {
+  return (client.defaults.baseURL || '').replace(/\/environments\/[^/]+$/, '');
+};
+
+// Client for the requested mode, or null when preview is requested but not configured
+export const getUpstreamClient = (upstream: ContentfulUpstream, preview: boolean): AxiosInstance | null => {
+  return preview ? upstream.previewClient : upstream.client;
+};
+
+// GraphQL client for the requested mode, or null when preview is requested but not configured
+export const getUpstreamGraphqlClient = (upstream: ContentfulUpstream, preview: boolean): AxiosInstance | null => {
+  return preview ? upstream.previewGraphqlClient : upstream.graphqlClient;
+};
+
+export const listUpstreams = (): ContentfulUpstream[] => {
+  return Array.from(loadRegistry().values());
+};
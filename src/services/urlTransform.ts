@@ -0,0 +1,134 @@
+import { getConfig } from '../config';
+
+// URL-bearing fields a rule can apply to
+export type UrlRewriteField = 'file' | 'hyperlink';
+
+export interface UrlRewriteRule {
+  // Source host, e.g. images.ctfassets.net
+  from: string;
+  // Target host, e.g. images.soundtools.com
+  to: string;
+  // Prepended to the path on the target host, e.g. '/media'
+  pathPrefix?: string;
+  // Fields the rule applies to: asset file URLs and/or rich text hyperlink URIs (default: both)
+  fields?: UrlRewriteField[];
+  // Rules can be switched off without being removed
+  enabled?: boolean;
+  // NODE_ENV values the rule applies in (default: all)
+  environments?: string[];
+}
+
+// images.soundtools.com is served by the image proxy (/images); other media hosts only
+// exist where they are configured in URL_REWRITE_RULES
+export const DEFAULT_URL_REWRITE_RULES: UrlRewriteRule[] = [
+  { from: 'images.ctfassets.net', to: 'images.soundtools.com' }
+];
+
+let activeRules: UrlRewriteRule[] | null = null;
+
+// Rules that are switched on for the current NODE_ENV
+export const getActiveRewriteRules = (): UrlRewriteRule[] => {
+  if (!activeRules) {
+    const { nodeEnv, urlRewriteRules } = getConfig();
+    activeRules = urlRewriteRules.filter(rule =>
+      rule.enabled !== false && (!rule.environments || rule.environments.includes(nodeEnv))
+    );
+  }
+  return activeRules;
+};
+
+// Matches absolute and protocol-relative URLs: (scheme)(host)(rest)
+const URL_PATTERN = /^((?:https?:)?\/\/)([^/?#]+)(.*)$/i;
+
+// Rewrite a single URL with the first matching rule for the field
+export const rewriteUrl = (url: string, field: UrlRewriteField): string => {
+  const match = URL_PATTERN.exec(url);
+  if (!match) {
+    return url;
+  }
+
+  const [, scheme, host, rest] = match;
+  const rule = getActiveRewriteRules().find(candidate =>
+    candidate.from.toLowerCase() === host.toLowerCase() && (!candidate.fields || candidate.fields.includes(field))
+  );
+  if (!rule) {
+    return url;
+  }
+
+  const prefix = rule.pathPrefix ? `/${rule.pathPrefix.replace(/^\/+|\/+$/g, '')}` : '';
+  return `${scheme}${rule.to}${prefix}${rest}`;
+};
+
+// A file object of a single locale
+const hasUrl = (value: unknown): value is { url: string } => {
+  return typeof value === 'object' && value !== null && 'url' in value && typeof value.url === 'string';
+};
+
+// fields.file is either { url, ... } or, with locale=*, { 'en-US': { url, ... } }
+const transformFileField = (file: any): any => {
+  if (!file || typeof file !== 'object') {
+    return file;
+  }
+
+  if (typeof file.url === 'string') {
+    return { ...file, url: rewriteUrl(file.url, 'file') };
+  }
+
+  const localized: any = {};
+  for (const [locale, value] of Object.entries(file)) {
+    localized[locale] = hasUrl(value) ? { ...value, url: rewriteUrl(value.url, 'file') } : value;
+  }
+  return localized;
+};
+
+// URL transformation function to replace Contentful media URLs. Only URL-bearing
+// fields are touched: asset fields.file.url and rich text hyperlink data.uri.
+export const transformContentfulUrls = (data: any): any => {
+  if (data === null || data === undefined || typeof data !== 'object') {
+    return data;
+  }
+
+  if (Array.isArray(data)) {
+    return data.map(item => transformContentfulUrls(item));
+  }
+
+  const transformed: any = {};
+  for (const [key, value] of Object.entries(data)) {
+    transformed[key] = transformContentfulUrls(value);
+  }
+
+  if (transformed.fields && typeof transformed.fields === 'object' && 'file' in transformed.fields) {
+    transformed.fields = { ...transformed.fields, file: transformFileField(transformed.fields.file) };
+  }
+
+  if (transformed.nodeType === 'hyperlink' && transformed.data && typeof transformed.data.uri === 'string') {
+    transformed.data = { ...transformed.data, uri: rewriteUrl(transformed.data.uri, 'hyperlink') };
+  }
+
+  return transformed;
+};
+
+// GraphQL responses expose asset URLs as a plain `url` field (Asset.url)
+// and rich text under `json`. Only hosts with a rewrite rule are touched.
+export const transformGraphqlUrls = (data: any): any => {
+  if (data === null || data === undefined || typeof data !== 'object') {
+    return data;
+  }
+
+  if (Array.isArray(data)) {
+    return data.map(item => transformGraphqlUrls(item));
+  }
+
+  const transformed: any = {};
+  for (const [key, value] of Object.entries(data)) {
+    transformed[key] = typeof value === 'string' && key === 'url'
+      ? rewriteUrl(value, 'file')
+      : transformGraphqlUrls(value);
+  }
+
+  if (transformed.nodeType === 'hyperlink' && transformed.data && typeof transformed.data.uri === 'string') {
+    transformed.data = { ...transformed.data, uri: rewriteUrl(transformed.data.uri, 'hyperlink') };
+  }
+
+  return transformed;
+};
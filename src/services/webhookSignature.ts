@@ -0,0 +1,64 @@
+import { IncomingHttpHeaders } from 'http';
+import { hmacSha256Hex, safeEqual } from '../utils/crypto';
+
+// Contentful rejects signed requests older than 30 seconds by default
+export const WEBHOOK_SIGNATURE_TTL = 30;
+
+export interface SignedRequest {
+  method: string;
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+const headerValue = (headers: IncomingHttpHeaders, name: string): string | undefined => {
+  const value = headers[name];
+  return Array.isArray(value) ? value.join(',') : value;
+};
+
+// Canonical request as described in Contentful's request verification docs:
+// METHOD \n PATH \n signed-header:value;... \n BODY
+const canonicalRequest = (request: SignedRequest, signedHeaders: string[]): string => {
+  const headers = signedHeaders
+    .map(name => `${name}:${headerValue(request.headers, name) || ''}`)
+    .join(';');
+
+  return [
+    request.method.toUpperCase(),
+    encodeURI(decodeURI(request.path)),
+    headers,
+    request.body
+  ].join('\n');
+};
+
+// Verify the x-contentful-signature header of an incoming webhook
+export const verifyContentfulSignature = (
+  secret: string,
+  request: SignedRequest,
+  ttlSeconds: number = WEBHOOK_SIGNATURE_TTL
+): boolean => {
+  const signature = headerValue(request.headers, 'x-contentful-signature');
+  const signedHeaderList = headerValue(request.headers, 'x-contentful-signed-headers');
+  const timestamp = headerValue(request.headers, 'x-contentful-timestamp');
+
+  if (!signature || !signedHeaderList || !timestamp) {
+    return false;
+  }
+
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(Date.now() - sentAt) > ttlSeconds * 1000) {
+    return false;
+  }
+
+  const signedHeaders = signedHeaderList.split(',').map(name => name.trim().toLowerCase());
+  if (!signedHeaders.includes('x-contentful-timestamp')) {
+    return false;
+  }
+
+  try {
+    return safeEqual(signature, hmacSha256Hex(secret, canonicalRequest(request, signedHeaders)));
+  } catch (error) {
+    // decodeURI throws on malformed paths
+    return false;
+  }
+};
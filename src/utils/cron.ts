@@ -0,0 +1,54 @@
+// Minimal 5-field cron expressions (minute hour day-of-month month day-of-week) with
+// `*`, `*/n`, `a-b`, `a-b/n` and comma lists. Day-of-week 0 and 7 are Sunday; unlike
+// classic cron, day-of-month and day-of-week must both match.
+export type CronMatcher = (date: Date) => boolean;
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7]
+];
+
+const parseField = (field: string, [min, max]: [number, number]): Set<number> => {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+
+    const start = match[1] === '*' ? min : Number(match[2]);
+    const end = match[1] === '*' ? max : match[3] !== undefined ? Number(match[3]) : match[4] ? max : start;
+    const step = match[4] ? Number(match[4]) : 1;
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Cron field "${field}" is out of range ${min}-${max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+export const parseCron = (expression: string): CronMatcher => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields`);
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, index) => parseField(field, FIELD_RANGES[index]));
+  if (weekdays.has(7)) {
+    weekdays.add(0);
+  }
+
+  return date => minutes.has(date.getMinutes())
+    && hours.has(date.getHours())
+    && days.has(date.getDate())
+    && months.has(date.getMonth() + 1)
+    && weekdays.has(date.getDay());
+};
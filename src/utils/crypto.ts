@@ -0,0 +1,12 @@
+import crypto from 'crypto';
+
+// Constant-time string comparison for secrets and signatures
+export const safeEqual = (a: string, b: string): boolean => {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+};
+
+export const hmacSha256Hex = (secret: string, payload: string): string => {
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+};
@@ -0,0 +1,12 @@
+// Convert a simple glob (`*` and `?` wildcards) into an anchored RegExp
+export const globToRegExp = (pattern: string): RegExp => {
+  const escaped = pattern
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${escaped}$`);
+};
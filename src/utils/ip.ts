@@ -0,0 +1,38 @@
+import net from 'net';
+
+const CIDR_PATTERN = /^([\d.]+)\/(\d{1,2})$/;
+
+// IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) as plain IPv4
+export const normalizeIp = (ip: string): string => {
+  return ip.startsWith('::ffff:') && net.isIPv4(ip.slice(7)) ? ip.slice(7) : ip;
+};
+
+const ipv4ToNumber = (ip: string): number => {
+  return ip.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+};
+
+// An exact IPv4/IPv6 address or an IPv4 CIDR range such as 10.0.0.0/8
+export const isIpListEntry = (entry: string): boolean => {
+  const cidr = CIDR_PATTERN.exec(entry);
+  return cidr ? net.isIPv4(cidr[1]) && Number(cidr[2]) <= 32 : net.isIP(entry) !== 0;
+};
+
+export const matchesIpList = (ip: string | undefined, list: string[]): boolean => {
+  if (!ip) {
+    return false;
+  }
+
+  const address = normalizeIp(ip);
+  return list.some(entry => {
+    const cidr = CIDR_PATTERN.exec(entry);
+    if (!cidr) {
+      return normalizeIp(entry) === address;
+    }
+    if (!net.isIPv4(address)) {
+      return false;
+    }
+    const bits = Number(cidr[2]);
+    const mask = bits === 0 ? 0 : (0xffffffff << (32 - bits)) >>> 0;
+    return ((ipv4ToNumber(cidr[1]) & mask) >>> 0) === ((ipv4ToNumber(address) & mask) >>> 0);
+  });
+};
@@ -0,0 +1,80 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { MemoryCacheStore } from '../src/services/memoryCacheStore';
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'admin-test-'));
+const auditLog = path.join(directory, 'audit.log');
+let server: http.Server;
+let baseUrl: string;
+
+const post = (path: string, key?: string) => fetch(`${baseUrl}${path}`, {
+  method: 'POST',
+  headers: key ? { Authorization: `Bearer ${key}` } : {}
+});
+
+// Audit file lines, once the asynchronous appends have landed
+const readAuditLog = async (count: number): Promise<any[]> => {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const lines = fs.existsSync(auditLog) ? fs.readFileSync(auditLog, 'utf8').trim().split('\n').filter(Boolean) : [];
+    if (lines.length >= count) {
+      return lines.map(line => JSON.parse(line));
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  assert.fail(`expected ${count} audit log lines`);
+};
+
+describe('admin audit log', () => {
+  before(async () => {
+    Object.assign(process.env, {
+      CONTENTFUL_SPACE_ID: 'space1',
+      CONTENTFUL_ACCESS_TOKEN: 'token',
+      ADMIN_API_KEY: 'admin-key',
+      ADMIN_AUDIT_LOG: auditLog,
+      LOG_LEVEL: 'error'
+    });
+
+    // The configuration is read on first use, so the module is loaded after the env is set
+    const { adminApi } = await import('../src/routes/admin');
+    const app = express();
+    app.use(express.json());
+    app.use('/api/admin', adminApi(new MemoryCacheStore()));
+    server = http.createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('records failed authentication attempts with the client IP', async () => {
+    assert.equal((await post('/api/admin/cache/flush')).status, 401);
+    assert.equal((await post('/api/admin/cache/flush', 'guess')).status, 401);
+
+    const [missing, invalid] = await readAuditLog(2);
+    assert.equal(missing.action, 'auth.failed');
+    assert.deepEqual(missing.details, { reason: 'missing key' });
+    assert.equal(invalid.path, '/api/admin/cache/flush');
+    assert.deepEqual(invalid.details, { reason: 'invalid key' });
+    assert.match(invalid.ip, /127\.0\.0\.1/);
+  });
+
+  it('records reads of the audit log', async () => {
+    const response = await post('/api/admin/audit?limit=5', 'admin-key');
+    assert.equal(response.status, 200);
+    const { entries } = (await response.json()) as any;
+    assert.deepEqual(entries.map((entry: any) => entry.action), ['auth.failed', 'auth.failed']);
+
+    const lines = await readAuditLog(3);
+    assert.equal(lines[2].action, 'audit.read');
+    assert.deepEqual(lines[2].details, { limit: 5 });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import Redis from 'ioredis';
+import RedisMock from 'ioredis-mock';
+import { CacheStore } from '../src/services/cacheStore';
+import { MemoryCacheStore } from '../src/services/memoryCacheStore';
+import { RedisCacheStore } from '../src/services/redisCacheStore';
+
+// Both backends must behave the same way, so they share one suite
+const backends: Record<string, () => CacheStore> = {
+  memory: () => new MemoryCacheStore({ stdTTL: 60 }),
+  // ioredis-mock keeps its data per host/port, so every store gets its own prefix
+  redis: () => new RedisCacheStore({
+    client: new RedisMock() as unknown as Redis,
+    prefix: `test-${Math.random().toString(36).slice(2)}:`,
+    defaultTtl: 60
+  })
+};
+
+for (const [backend, create] of Object.entries(backends)) {
+  describe(`${backend} cache store`, () => {
+    let cache: CacheStore;
+
+    beforeEach(() => {
+      cache = create();
+    });
+
+    it('stores and returns values', async () => {
+      await cache.set('entries:a', { items: [1, 2] });
+      assert.deepEqual(await cache.get('entries:a'), { items: [1, 2] });
+      assert.equal(await cache.has('entries:a'), true);
+      assert.equal(await cache.get('entries:missing'), undefined);
+      assert.equal(await cache.has('entries:missing'), false);
+    });
+
+    it('deletes keys and reports how many were removed', async () => {
+      await cache.set('a', 1);
+      await cache.set('b', 2);
+      assert.equal(await cache.del(['a', 'b', 'c']), 2);
+      assert.equal(await cache.get('a'), undefined);
+      assert.equal(await cache.del([]), 0);
+    });
+
+    it('expires entries after their ttl', async () => {
+      const before = Date.now();
+      await cache.set('short', 'value', 1);
+      const expiresAt = await cache.getTtl('short');
+      assert.ok(expiresAt! >= before + 900 && expiresAt! <= Date.now() + 1100, `unexpected expiry ${expiresAt}`);
+      assert.equal(await cache.getTtl('missing'), undefined);
+
+      await new Promise(resolve => setTimeout(resolve, 1100));
+      assert.equal(await cache.get('short'), undefined);
+    });
+
+    it('uses the default ttl when none is given', async () => {
+      await cache.set('default', 'value');
+      const expiresAt = await cache.getTtl('default');
+      assert.ok(expiresAt! > Date.now() + 55 * 1000 && expiresAt! <= Date.now() + 60 * 1000);
+    });
+
+    it('lists and flushes its keys', async () => {
+      await cache.set('a', 1);
+      await cache.set('b', 2);
+      assert.deepEqual((await cache.keys()).sort(), ['a', 'b']);
+
+      await cache.flush();
+      assert.deepEqual(await cache.keys(), []);
+      assert.equal((await cache.getStats()).keys, 0);
+    });
+
+    it('indexes the item IDs of keys apart from the keys themselves', async () => {
+      await cache.set('page', { sys: { id: 'page' } });
+      await cache.addReferences('page', ['page', 'product']);
+      assert.deepEqual(await cache.getReferencingKeys('product'), ['page']);
+      assert.deepEqual(await cache.keys(), ['page']);
+
+      await cache.flush();
+      assert.deepEqual(await cache.getReferencingKeys('product'), []);
+    });
+
+    it('counts hits, misses and keys', async () => {
+      await cache.set('a', 1);
+      await cache.get('a');
+      await cache.get('a');
+      await cache.get('missing');
+
+      const stats = await cache.getStats();
+      assert.equal(stats.backend, backend);
+      assert.equal(stats.keys, 1);
+      assert.equal(stats.hits, 2);
+      assert.equal(stats.misses, 1);
+    });
+  });
+}
+
+describe('redis cache store', () => {
+  it('reuses the key count between stats calls', async () => {
+    const cache = new RedisCacheStore({ client: new RedisMock() as unknown as Redis, prefix: 'counted:' });
+    await cache.set('a', 1);
+    assert.equal((await cache.getStats()).keys, 1);
+
+    await cache.set('b', 2);
+    assert.equal((await cache.getStats()).keys, 1);
+  });
+
+  it('leaves keys outside its prefix alone', async () => {
+    const client = new RedisMock() as unknown as Redis;
+    const cache = new RedisCacheStore({ client, prefix: 'isolated:' });
+    await client.set('other:key', 'keep');
+    await cache.set('a', 1);
+
+    assert.deepEqual(await cache.keys(), ['a']);
+    await cache.flush();
+    assert.equal(await client.get('other:key'), 'keep');
+  });
+
+  it('keeps the reference index out of a prefix without a trailing colon', async () => {
+    const client = new RedisMock() as unknown as Redis;
+    const cache = new RedisCacheStore({ client, prefix: 'bare' });
+    await cache.set('a', 1);
+    await cache.addReferences('a', ['item1']);
+
+    assert.deepEqual(await cache.keys(), ['a']);
+    assert.equal(await client.get('bare:a'), '1');
+    await cache.flush();
+    assert.deepEqual(await cache.getReferencingKeys('item1'), []);
+  });
+});
+
+describe('memory cache store', () => {
+  it('evicts the least recently used entries beyond maxEntries', async () => {
+    const cache = new MemoryCacheStore({ maxEntries: 2 });
+    await cache.set('a', 1);
+    await cache.set('b', 2);
+    await cache.get('a');
+    await cache.set('c', 3);
+
+    assert.deepEqual((await cache.keys()).sort(), ['a', 'c']);
+    assert.equal((await cache.getStats()).evictions, 1);
+  });
+});
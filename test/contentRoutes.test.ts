@@ -0,0 +1,91 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { MemoryCacheStore } from '../src/services/memoryCacheStore';
+
+const cache = new MemoryCacheStore();
+const upstreamCalls: Array<Record<string, string>> = [];
+let server: http.Server;
+let baseUrl: string;
+
+const get = (path: string) => fetch(`${baseUrl}${path}`);
+
+const product = { sys: { id: 'p1', type: 'Entry' }, fields: { title: 'Synth', handle: 'synth' } };
+
+describe('named content routes', () => {
+  before(async () => {
+    Object.assign(process.env, {
+      CONTENTFUL_SPACE_ID: 'space1',
+      CONTENTFUL_ACCESS_TOKEN: 'token',
+      CONTENT_ROUTES: JSON.stringify([
+        { contentType: 'product', route: 'products', slugField: 'handle', select: ['fields.title'], include: 2 }
+      ]),
+      LOG_LEVEL: 'error'
+    });
+
+    // The configuration is read on first use, so the modules are loaded after the env is set
+    const { getDefaultUpstream } = await import('../src/services/upstreams');
+    const { contentfulProxy } = await import('../src/routes/contentful');
+    getDefaultUpstream()!.client.defaults.adapter = async config => {
+      upstreamCalls.push({ ...config.params });
+      const items = config.params['fields.handle'] === 'synth' ? [product] : [];
+      return {
+        data: { sys: { type: 'Array' }, total: items.length, skip: 0, limit: 1, items },
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config
+      };
+    };
+
+    const app = express();
+    app.use(contentfulProxy(cache));
+    server = http.createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(async () => {
+    upstreamCalls.length = 0;
+    await cache.flush();
+  });
+
+  it('sends the configured query upstream', async () => {
+    const response = await get('/content/products/synth');
+    assert.equal(response.status, 200);
+    assert.deepEqual(((await response.json()) as any).items, [product]);
+    assert.deepEqual(upstreamCalls, [{
+      content_type: 'product',
+      'fields.handle': 'synth',
+      include: '2',
+      limit: '1',
+      select: 'fields.title,sys'
+    }]);
+  });
+
+  it('answers 404 when nothing matches the slug', async () => {
+    const response = await get('/content/products/unknown');
+    assert.equal(response.status, 404);
+    assert.deepEqual(await response.json(), { error: 'Not Found', message: 'No product found for "unknown"' });
+  });
+
+  it('answers 404 for cached empty matches too', async () => {
+    await get('/content/products/unknown');
+    const response = await get('/content/products/unknown');
+    assert.equal(response.status, 404);
+    assert.equal(upstreamCalls.length, 1);
+  });
+
+  it('ignores Contentful query params from clients', async () => {
+    const response = await get('/content/products/synth?content_type=other&limit=100');
+    assert.equal(response.status, 200);
+    assert.equal(upstreamCalls[0].content_type, 'product');
+    assert.equal(upstreamCalls[0].limit, '1');
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DiskCache } from '../src/services/diskCache';
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'disk-cache-test-'));
+
+// Above the kernel's PID limit, so no process can have it
+const DEAD_PID = 2 ** 22 + 1;
+
+describe('DiskCache', () => {
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('keeps committed entries across restarts and evicts the least recently used', () => {
+    const cache = new DiskCache({ directory, maxBytes: 10 });
+    for (const key of ['a', 'b']) {
+      const tempFile = cache.tempPath(key);
+      fs.writeFileSync(tempFile, '12345');
+      cache.commit(key, tempFile, 'image/webp');
+    }
+    cache.get('a');
+
+    const tempFile = cache.tempPath('c');
+    fs.writeFileSync(tempFile, '12345');
+    cache.commit('c', tempFile, 'image/webp');
+
+    const reloaded = new DiskCache({ directory, maxBytes: 10 });
+    assert.equal(reloaded.count, 2);
+    assert.equal(reloaded.get('b'), null);
+    assert.equal(reloaded.get('a')?.contentType, 'image/webp');
+    assert.equal(fs.readFileSync(reloaded.get('c')!.path, 'utf8'), '12345');
+  });
+
+  it('removes temp files of unfinished downloads at startup', () => {
+    const cache = new DiskCache({ directory, maxBytes: 1000 });
+    const orphans = [
+      cache.tempPath('own'),
+      cache.tempPath('dead').replace(`.${process.pid}.`, `.${DEAD_PID}.`),
+      path.join(directory, 'unknown.tmp')
+    ];
+    // The parent process is alive and may still be writing
+    const inProgress = cache.tempPath('parent').replace(`.${process.pid}.`, `.${process.ppid}.`);
+    [...orphans, inProgress].forEach(file => fs.writeFileSync(file, 'partial'));
+
+    const reloaded = new DiskCache({ directory, maxBytes: 1000 });
+    assert.deepEqual(orphans.filter(file => fs.existsSync(file)), []);
+    assert.ok(fs.existsSync(inProgress));
+    assert.equal(reloaded.count, cache.count);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { flatFormatOption, flattenResponse } from '../src/services/flatFormat';
+
+// A locale=* entry, as Contentful returns it
+const localizedEntry = {
+  sys: { type: 'Entry', id: 'p1', contentType: { sys: { id: 'product' } }, updatedAt: '2024-01-01T00:00:00Z' },
+  fields: {
+    title: { 'en-US': 'Synth', 'de-DE': 'Synthesizer' },
+    subtitle: { 'de-DE': 'Nur Deutsch' },
+    price: { 'en-US': 10 }
+  }
+};
+
+describe('flattenResponse', () => {
+  it('reduces items to sys and plain fields', () => {
+    const entry = { sys: { type: 'Entry', id: 'p1', revision: 3 }, fields: { title: 'Synth' } };
+    assert.deepEqual(flattenResponse(entry, { localized: false, fallbackLocale: 'en-US' }), {
+      sys: { id: 'p1' },
+      fields: { title: 'Synth' }
+    });
+  });
+
+  it('picks selectLocale, then fallbackLocale, then the first locale', () => {
+    const { fields } = flattenResponse(localizedEntry, { localized: true, locale: 'de-DE', fallbackLocale: 'en-US' });
+    assert.deepEqual(fields, { title: 'Synthesizer', subtitle: 'Nur Deutsch', price: 10 });
+
+    const fallback = flattenResponse(localizedEntry, { localized: true, locale: 'fr-FR', fallbackLocale: 'en-US' }).fields;
+    assert.deepEqual(fallback, { title: 'Synth', subtitle: 'Nur Deutsch', price: 10 });
+  });
+
+  it('leaves object values alone when the response is not localized', () => {
+    const entry = { sys: { type: 'Entry', id: 'p1' }, fields: { dimensions: { 'en-US': 1 } } };
+    const { fields } = flattenResponse(entry, { localized: false, locale: 'de-DE', fallbackLocale: 'en-US' });
+    assert.deepEqual(fields.dimensions, { 'en-US': 1 });
+  });
+});
+
+describe('flatFormatOption', () => {
+  before(() => {
+    Object.assign(process.env, {
+      CONTENTFUL_SPACE_ID: 'space1',
+      CONTENTFUL_ACCESS_TOKEN: 'token',
+      CONTENTFUL_DEFAULT_LOCALE: 'de-DE',
+      CONTENTFUL_LOCALES: 'de-DE,en-US',
+      LOG_LEVEL: 'error'
+    });
+  });
+
+  it('falls back to the default locale of the space', () => {
+    const { fields } = flatFormatOption.transform(localizedEntry, { format: 'flat', locale: '*' });
+    assert.equal(fields.title, 'Synthesizer');
+    assert.equal(fields.price, 10);
+  });
+
+  it('uses fallbackLocale when selectLocale has no value', () => {
+    const query = { format: 'flat', locale: '*', selectLocale: 'en-US', fallbackLocale: 'de-DE' };
+    assert.deepEqual(flatFormatOption.transform(localizedEntry, query).fields, { title: 'Synth', subtitle: 'Nur Deutsch', price: 10 });
+  });
+
+  it('accepts only configured locales', () => {
+    assert.equal(flatFormatOption.validate!({ format: 'flat', selectLocale: 'en-US' }), null);
+    assert.match(flatFormatOption.validate!({ format: 'flat', fallbackLocale: 'fr-FR' })!, /one of the configured locales \(de-DE, en-US\)/);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+
+// Local stand-in for images.ctfassets.net; each path picks a behaviour
+const IMAGE = Buffer.alloc(20000, 7);
+const upstreamHits: string[] = [];
+const imagesHost = http.createServer((req, res) => {
+  upstreamHits.push(req.url!);
+  if (req.url!.includes('/truncated/')) {
+    // Promise 100000 bytes, send 1000, then reset the connection
+    res.writeHead(200, { 'Content-Type': 'image/png', 'Content-Length': '100000' });
+    res.write(Buffer.alloc(1000));
+    setTimeout(() => req.socket.destroy(), 20);
+    return;
+  }
+  if (req.url!.includes('/missing/')) {
+    res.writeHead(404).end();
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': 'image/png', 'Content-Length': String(IMAGE.length) });
+  res.end(IMAGE);
+});
+
+const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'image-cache-test-'));
+let proxy: http.Server;
+let baseUrl: string;
+
+const listen = (server: http.Server): Promise<number> => {
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port)));
+};
+
+const tempFiles = () => fs.readdirSync(cacheDir).filter(file => file.endsWith('.tmp'));
+// Metadata files, written when a download is committed to the cache
+const cachedFiles = () => fs.readdirSync(cacheDir).filter(file => file.endsWith('.json'));
+
+const waitFor = async (check: () => boolean, timeoutMs: number = 2000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!check() && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  return check();
+};
+
+describe('image proxy', () => {
+  before(async () => {
+    const upstreamPort = await listen(imagesHost);
+    Object.assign(process.env, {
+      CONTENTFUL_SPACE_ID: 'space1',
+      CONTENTFUL_ACCESS_TOKEN: 'token',
+      IMAGES_UPSTREAM_BASE: `http://127.0.0.1:${upstreamPort}`,
+      IMAGE_CACHE_DIR: cacheDir,
+      RATE_LIMIT_EXPENSIVE_MAX_REQUESTS: '2',
+      LOG_LEVEL: 'error'
+    });
+
+    // The configuration is read on first use, so the route is loaded after the env is set
+    const { imageProxy } = await import('../src/routes/images');
+    const { createImageMissLimiters } = await import('../src/services/rateLimits');
+    const app = express();
+    app.use('/images', imageProxy());
+    app.use('/limited', imageProxy(createImageMissLimiters()));
+    proxy = http.createServer(app);
+    baseUrl = `http://127.0.0.1:${await listen(proxy)}/images`;
+  });
+
+  after(() => {
+    proxy.close();
+    imagesHost.close();
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('fetches an image once and serves it from the disk cache afterwards', async () => {
+    const first = await fetch(`${baseUrl}/space1/asset1/tok/a.png?w=100`);
+    assert.equal(first.status, 200);
+    assert.equal(first.headers.get('x-cache'), 'MISS');
+    assert.deepEqual(Buffer.from(await first.arrayBuffer()), IMAGE);
+    assert.ok(await waitFor(() => cachedFiles().length === 1));
+
+    const second = await fetch(`${baseUrl}/space1/asset1/tok/a.png?w=100`);
+    assert.equal(second.headers.get('x-cache'), 'HIT');
+    assert.equal(second.headers.get('content-length'), String(IMAGE.length));
+    assert.deepEqual(Buffer.from(await second.arrayBuffer()), IMAGE);
+    assert.equal(upstreamHits.filter(url => url.includes('/asset1/')).length, 1);
+  });
+
+  it('closes the response and caches nothing when the upstream connection resets', async () => {
+    await assert.rejects(async () => {
+      const response = await fetch(`${baseUrl}/space1/truncated/tok/b.png`, { signal: AbortSignal.timeout(5000) });
+      assert.equal(response.status, 200);
+      await response.arrayBuffer();
+    }, (error: any) => error.name !== 'TimeoutError');
+
+    assert.ok(await waitFor(() => tempFiles().length === 0), `temp files left: ${tempFiles()}`);
+    assert.equal(cachedFiles().length, 1);
+    await fetch(`${baseUrl}/space1/truncated/tok/b.png`).then(response => response.arrayBuffer()).catch(() => null);
+    assert.equal(upstreamHits.filter(url => url.includes('/truncated/')).length, 2);
+  });
+
+  it('fetches the image again when the cached file has disappeared', async () => {
+    await (await fetch(`${baseUrl}/space1/asset2/tok/c.png`)).arrayBuffer();
+    assert.ok(await waitFor(() => cachedFiles().length === 2));
+    for (const file of fs.readdirSync(cacheDir).filter(name => !name.endsWith('.json'))) {
+      fs.rmSync(path.join(cacheDir, file));
+    }
+
+    const response = await fetch(`${baseUrl}/space1/asset2/tok/c.png`);
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('x-cache'), 'MISS');
+    assert.deepEqual(Buffer.from(await response.arrayBuffer()), IMAGE);
+  });
+
+  it('rejects invalid params, unknown spaces and passes on 404s', async () => {
+    assert.equal((await fetch(`${baseUrl}/space1/asset1/tok/a.png?w=99999`)).status, 400);
+    assert.equal((await fetch(`${baseUrl}/other/asset1/tok/a.png`)).status, 404);
+    assert.equal((await fetch(`${baseUrl}/space1/missing/tok/a.png`)).status, 404);
+  });
+
+  it('limits cache misses but serves disk cache hits without a limit', async () => {
+    const limitedUrl = baseUrl.replace(/\/images$/, '/limited');
+    const cachedBefore = cachedFiles().length;
+    const first = await fetch(`${limitedUrl}/space1/asset3/tok/d.png?w=1`);
+    assert.equal(first.headers.get('x-cache'), 'MISS');
+    await first.arrayBuffer();
+    assert.ok(await waitFor(() => cachedFiles().length === cachedBefore + 1));
+
+    for (let i = 0; i < 3; i++) {
+      const hit = await fetch(`${limitedUrl}/space1/asset3/tok/d.png?w=1`);
+      assert.equal(hit.headers.get('x-cache'), 'HIT');
+      await hit.arrayBuffer();
+    }
+
+    await (await fetch(`${limitedUrl}/space1/asset3/tok/d.png?w=2`)).arrayBuffer();
+    const limited = await fetch(`${limitedUrl}/space1/asset3/tok/d.png?w=3`);
+    assert.equal(limited.status, 429);
+    assert.equal(upstreamHits.filter(url => url.includes('/asset3/')).length, 2);
+  });
+});
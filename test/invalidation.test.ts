@@ -0,0 +1,78 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import Redis from 'ioredis';
+import RedisMock from 'ioredis-mock';
+import { CacheStore } from '../src/services/cacheStore';
+import { MemoryCacheStore } from '../src/services/memoryCacheStore';
+import { RedisCacheStore } from '../src/services/redisCacheStore';
+import { generateCacheKey } from '../src/services/cacheKeys';
+import { collectReferencedIds, findKeysForItem, invalidateItem } from '../src/services/invalidation';
+import { writeCache } from '../src/services/staleCache';
+
+const entry = (id: string, fields: Record<string, unknown> = {}) => ({ sys: { id, type: 'Entry' }, fields });
+const link = (id: string) => ({ sys: { type: 'Link', linkType: 'Entry', id } });
+
+const backends: Record<string, () => CacheStore> = {
+  memory: () => new MemoryCacheStore(),
+  redis: () => new RedisCacheStore({
+    client: new RedisMock() as unknown as Redis,
+    prefix: `test-${Math.random().toString(36).slice(2)}:`
+  })
+};
+
+describe('collectReferencedIds', () => {
+  it('finds items, links and includes', () => {
+    const ids = collectReferencedIds({
+      items: [entry('a', { related: link('b') })],
+      includes: { Entry: [entry('c')] }
+    });
+    assert.deepEqual(Array.from(ids).sort(), ['a', 'b', 'c']);
+  });
+});
+
+before(() => {
+  process.env.CONTENTFUL_SPACE_ID = 'space1';
+  process.env.CONTENTFUL_ACCESS_TOKEN = 'token';
+  process.env.LOG_LEVEL = 'error';
+});
+
+for (const [backend, create] of Object.entries(backends)) {
+  describe(`invalidation with the ${backend} cache store`, () => {
+    it('finds keys through the reference index without reading cached values', async () => {
+      const cache = create();
+      const productKey = generateCacheKey('entries/product1', {});
+      const pageKey = generateCacheKey('entries/page1', {});
+      const otherKey = generateCacheKey('entries/other', {});
+      const listingKey = generateCacheKey('entries', { content_type: 'product' });
+      await writeCache(cache, productKey, entry('product1'));
+      await writeCache(cache, pageKey, entry('page1', { featured: link('product1') }));
+      await writeCache(cache, otherKey, entry('other'));
+      await writeCache(cache, listingKey, { items: [] });
+
+      cache.get = async () => assert.fail('cached values must not be read');
+      const keys = await findKeysForItem(cache, { entityType: 'Entry', id: 'product1', contentTypeId: 'product' });
+      assert.deepEqual(keys.sort(), [listingKey, pageKey, productKey].sort());
+    });
+
+    it('evicts the matching keys', async () => {
+      const cache = create();
+      const pageKey = generateCacheKey('entries/page1', {});
+      await writeCache(cache, pageKey, entry('page1', { featured: link('product1') }));
+
+      assert.deepEqual(await invalidateItem(cache, { entityType: 'Entry', id: 'product1' }), [pageKey]);
+      assert.equal(await cache.has(pageKey), false);
+    });
+
+    it('forgets references of keys that are overwritten', async () => {
+      const cache = create();
+      const pageKey = generateCacheKey('entries/page1', {});
+      await writeCache(cache, pageKey, entry('page1', { featured: link('product1') }));
+      await writeCache(cache, pageKey, entry('page1', { featured: link('product2') }));
+
+      assert.deepEqual(await cache.getReferencingKeys('product2'), [pageKey]);
+      if (backend === 'memory') {
+        assert.deepEqual(await cache.getReferencingKeys('product1'), []);
+      }
+    });
+  });
+}
@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveLinks, resolveLinksOption } from '../src/services/linkResolution';
+
+const link = (id: string, linkType = 'Entry') => ({ sys: { type: 'Link', linkType, id } });
+const entry = (id: string, fields: Record<string, any>) => ({ sys: { type: 'Entry', id }, fields });
+
+describe('resolveLinks', () => {
+  it('inlines linked entries and assets and drops includes', () => {
+    const data = {
+      items: [entry('a', { brand: link('b'), image: link('img', 'Asset') })],
+      includes: {
+        Entry: [entry('b', { name: 'Brand' })],
+        Asset: [{ sys: { type: 'Asset', id: 'img' }, fields: { title: 'Image' } }]
+      }
+    };
+    const resolved = resolveLinks(data);
+    assert.equal(resolved.includes, undefined);
+    assert.deepEqual(resolved.items[0].fields.brand, entry('b', { name: 'Brand' }));
+    assert.equal(resolved.items[0].fields.image.fields.title, 'Image');
+  });
+
+  it('marks links without a target as missing', () => {
+    const resolved = resolveLinks({ items: [entry('a', { related: [link('gone')] })] });
+    assert.deepEqual(resolved.items[0].fields.related, [{ ...link('gone'), unresolved: 'missing' }]);
+  });
+
+  it('marks links back to an ancestor as circular', () => {
+    const data = {
+      items: [entry('a', { next: link('b') })],
+      includes: { Entry: [entry('b', { back: link('a'), self: link('b') })] }
+    };
+    const b = resolveLinks(data, 5).items[0].fields.next;
+    assert.deepEqual(b.fields.back, { ...link('a'), unresolved: 'circular' });
+    assert.deepEqual(b.fields.self, { ...link('b'), unresolved: 'circular' });
+  });
+
+  it('resolves shared references that are not cycles', () => {
+    const data = {
+      items: [entry('a', { first: link('c'), second: link('c') })],
+      includes: { Entry: [entry('c', { name: 'Shared' })] }
+    };
+    const { fields } = resolveLinks(data).items[0];
+    assert.equal(fields.first.fields.name, 'Shared');
+    assert.equal(fields.second.fields.name, 'Shared');
+  });
+
+  it('marks links below the depth as depth', () => {
+    const data = {
+      items: [entry('a', { next: link('b') })],
+      includes: { Entry: [entry('b', { next: link('c') }), entry('c', { next: link('d') }), entry('d', {})] }
+    };
+    const b = resolveLinks(data, 2).items[0].fields.next;
+    assert.equal(b.sys.id, 'b');
+    assert.equal(b.fields.next.sys.id, 'c');
+    assert.deepEqual(b.fields.next.fields.next, { ...link('d'), unresolved: 'depth' });
+
+    assert.deepEqual(resolveLinks(data, 0).items[0].fields.next, { ...link('b'), unresolved: 'depth' });
+  });
+
+  it('leaves sys links alone', () => {
+    const item = { sys: { type: 'Entry', id: 'a', contentType: link('product', 'ContentType') }, fields: {} };
+    assert.deepEqual(resolveLinks({ items: [item] }).items[0].sys, item.sys);
+  });
+});
+
+describe('resolveLinksOption', () => {
+  it('validates depth', () => {
+    assert.equal(resolveLinksOption.validate!({ resolve: 'true', depth: '10' }), null);
+    assert.match(resolveLinksOption.validate!({ resolve: 'true', depth: '11' })!, /between 0 and 10/);
+    assert.match(resolveLinksOption.validate!({ resolve: 'maybe' })!, /must be true or false/);
+  });
+
+  it('raises include to the depth', () => {
+    const upstreamQuery: Record<string, string> = { include: '1' };
+    resolveLinksOption.prepareQuery!(upstreamQuery, { resolve: 'true', depth: '3' });
+    assert.equal(upstreamQuery.include, '3');
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ContentfulUpstream } from '../src/services/upstreams';
+import { SyncMirror } from '../src/services/syncMirror';
+
+const link = (linkType: 'Entry' | 'Asset', id: string) => ({ sys: { type: 'Link', linkType, id } });
+const entry = (id: string, contentType: string, updatedAt: string, fields: Record<string, Record<string, unknown>>) => ({
+  sys: { id, type: 'Entry', updatedAt, contentType: { sys: { type: 'Link', linkType: 'ContentType', id: contentType } } },
+  fields
+});
+
+const LOCALES = [
+  { code: 'en-US', default: true, fallbackCode: null },
+  { code: 'de-DE', default: false, fallbackCode: 'en-US' },
+  { code: 'de-AT', default: false, fallbackCode: 'de-DE' }
+];
+
+// p1 and p3 share an updatedAt, so the default order falls back to the ID
+const ITEMS = [
+  entry('p1', 'product', '2024-01-03T00:00:00Z', {
+    title: { 'en-US': 'One', 'de-DE': 'Eins' },
+    price: { 'en-US': 10 },
+    related: { 'en-US': link('Entry', 'p2') }
+  }),
+  entry('p2', 'product', '2024-01-02T00:00:00Z', {
+    title: { 'en-US': 'Two' },
+    price: { 'en-US': 20 },
+    image: { 'en-US': link('Asset', 'a1') },
+    related: { 'en-US': link('Entry', 'p3') }
+  }),
+  entry('p3', 'product', '2024-01-03T00:00:00Z', {
+    title: { 'en-US': 'Three', 'de-AT': 'Drei' },
+    price: { 'en-US': 10 }
+  }),
+  entry('c1', 'category', '2024-01-01T00:00:00Z', { title: { 'en-US': 'One' } }),
+  { sys: { id: 'a1', type: 'Asset', updatedAt: '2024-01-01T00:00:00Z' }, fields: { title: { 'en-US': 'Photo' } } }
+];
+
+const mirrorDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-mirror-test-'));
+let upstream: ContentfulUpstream;
+let queryMirror: typeof import('../src/services/localQuery').queryMirror;
+
+const query = (params: Record<string, string>, resource: 'entries' | 'assets' = 'entries') => queryMirror(upstream, resource, params);
+const ids = (response: any): string[] => response.items.map((item: any) => item.sys.id);
+
+describe('local query engine', () => {
+  before(async () => {
+    Object.assign(process.env, {
+      CONTENTFUL_SPACE_ID: 'space1',
+      CONTENTFUL_ACCESS_TOKEN: 'token',
+      SYNC_MIRROR: 'true',
+      SYNC_MIRROR_DIR: mirrorDir,
+      SYNC_MIRROR_INTERVAL: '3600',
+      LOG_LEVEL: 'error'
+    });
+
+    // The configuration is read on first use, so the modules are loaded after the env is set
+    const { getDefaultUpstream } = await import('../src/services/upstreams');
+    const { startSyncMirror } = await import('../src/services/syncMirror');
+    ({ queryMirror } = await import('../src/services/localQuery'));
+
+    upstream = getDefaultUpstream()!;
+    upstream.client.defaults.adapter = async config => {
+      const data = config.url === '/locales'
+        ? { items: LOCALES }
+        : { items: ITEMS, nextSyncUrl: 'https://cdn.contentful.com/spaces/space1/sync?sync_token=next' };
+      return { data, status: 200, statusText: 'OK', headers: {}, config };
+    };
+
+    const mirror = startSyncMirror() as SyncMirror;
+    await mirror.requestSync();
+    assert.ok(mirror.ready);
+  });
+
+  after(() => {
+    fs.rmSync(mirrorDir, { recursive: true, force: true });
+  });
+
+  it('follows the locale fallback chain', () => {
+    const response = query({ content_type: 'product', locale: 'de-AT' });
+    const titles = Object.fromEntries(response.items.map((item: any) => [item.sys.id, item.fields.title]));
+    assert.deepEqual(titles, { p1: 'Eins', p2: 'Two', p3: 'Drei' });
+    assert.equal(response.items[0].sys.locale, 'de-AT');
+  });
+
+  it('filters by sys.id[in]', () => {
+    assert.deepEqual(ids(query({ 'sys.id[in]': 'p3,p1,missing' })), ['p1', 'p3']);
+  });
+
+  it('orders by fields and breaks ties by updatedAt, then ID', () => {
+    assert.deepEqual(ids(query({ content_type: 'product' })), ['p1', 'p3', 'p2']);
+    assert.deepEqual(ids(query({ content_type: 'product', order: 'fields.price' })), ['p1', 'p3', 'p2']);
+    assert.deepEqual(ids(query({ content_type: 'product', order: '-fields.price' })), ['p2', 'p1', 'p3']);
+    assert.deepEqual(ids(query({ content_type: 'product', order: 'sys.id', skip: '1', limit: '1' })), ['p2']);
+  });
+
+  it('includes linked items up to the include depth', () => {
+    assert.equal(query({ 'sys.id': 'p1', include: '0' }).includes, undefined);
+
+    const one = query({ 'sys.id': 'p1', include: '1' }).includes;
+    assert.deepEqual(one.Entry.map((item: any) => item.sys.id), ['p2']);
+    assert.equal(one.Asset, undefined);
+
+    const two = query({ 'sys.id': 'p1', include: '2' }).includes;
+    assert.deepEqual(two.Entry.map((item: any) => item.sys.id), ['p2', 'p3']);
+    assert.deepEqual(two.Asset.map((item: any) => item.sys.id), ['a1']);
+  });
+
+  it('answers field filters and select with a content_type', () => {
+    assert.deepEqual(ids(query({ content_type: 'product', 'fields.title': 'One' })), ['p1']);
+    const selected = query({ content_type: 'product', 'sys.id': 'p1', select: 'sys,fields.title' });
+    assert.deepEqual(selected.items[0].fields, { title: 'One' });
+    assert.deepEqual(ids(query({ 'fields.title': 'Photo' }, 'assets')), ['a1']);
+  });
+
+  it('leaves queries the Delivery API would answer differently to Contentful', () => {
+    assert.equal(query({ 'fields.title': 'One' }), null);
+    assert.equal(query({ 'fields.related.sys.id': 'p2' }), null);
+    assert.equal(query({ select: 'fields.title' }), null);
+    assert.equal(query({ order: 'fields.price' }), null);
+    assert.equal(query({ content_type: 'product', 'fields.price[gte]': '10' }), null);
+    assert.equal(query({ locale: 'fr-FR' }), null);
+    assert.equal(query({ content_type: 'product', locale: '*', 'fields.title': 'One' }), null);
+  });
+
+  it('only answers for the mirrored upstream', () => {
+    assert.equal(queryMirror({ ...upstream, key: 'space2/master' }, 'entries', {}), null);
+  });
+});
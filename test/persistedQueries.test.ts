@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GraphqlOperation, operationHash, operationNames, resolveOperationName } from '../src/services/persistedQueries';
+
+const toOperation = (query: string): GraphqlOperation => ({ query, hash: operationHash(query), operationNames: operationNames(query) });
+
+describe('operationNames', () => {
+  it('lists named operations and skips comments and strings', () => {
+    const query = `
+      # query Commented { a }
+      query ProductList($slug: String = "query Quoted") { a }
+      mutation Save { b }
+      { anonymous }
+    `;
+    assert.deepEqual(operationNames(query), ['ProductList', 'Save']);
+  });
+});
+
+describe('resolveOperationName', () => {
+  const single = toOperation('query ProductList { productCollection { items { name } } }');
+  const multiple = toOperation('query A { a } query B { b }');
+
+  it('accepts names the document defines', () => {
+    assert.equal(resolveOperationName(multiple, 'B'), 'B');
+  });
+
+  it('rejects names the document does not define', () => {
+    assert.equal(resolveOperationName(single, 'Random123'), null);
+  });
+
+  it('defaults to the only named operation', () => {
+    assert.equal(resolveOperationName(single, undefined), 'ProductList');
+    assert.equal(resolveOperationName(multiple, undefined), '');
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { createPreviewToken, previewMode } from '../src/services/preview';
+
+let server: http.Server;
+let baseUrl: string;
+
+describe('preview middleware', () => {
+  before(async () => {
+    Object.assign(process.env, {
+      CONTENTFUL_SPACE_ID: 'space1',
+      CONTENTFUL_ACCESS_TOKEN: 'token',
+      PREVIEW_SECRET: 'preview-secret',
+      LOG_LEVEL: 'error'
+    });
+
+    const app = express();
+    app.use(previewMode);
+    app.get('/entries', (req, res) => {
+      res.json({ preview: res.locals.preview });
+    });
+    server = http.createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('serves published content when the cookie cannot be decoded', async () => {
+    const response = await fetch(`${baseUrl}/entries`, { headers: { Cookie: 'st_preview=%E0%A4%A' } });
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { preview: false });
+  });
+
+  it('accepts a valid token from the cookie', async () => {
+    const token = encodeURIComponent(createPreviewToken());
+    const response = await fetch(`${baseUrl}/entries`, { headers: { Cookie: `st_preview=${token}` } });
+    assert.deepEqual(await response.json(), { preview: true });
+    assert.equal(response.headers.get('cache-control'), 'private, no-store');
+  });
+
+  it('rejects an invalid token', async () => {
+    const response = await fetch(`${baseUrl}/entries`, { headers: { 'X-Preview-Token': '1.bad' } });
+    assert.equal(response.status, 401);
+  });
+
+  it('varies published responses on the preview cookie and header', async () => {
+    const response = await fetch(`${baseUrl}/entries`);
+    assert.equal(response.headers.get('vary'), 'Cookie, X-Preview-Token');
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { MemoryCacheStore } from '../src/services/memoryCacheStore';
+import { QueryPolicy, checkQueryPolicy } from '../src/services/queryPolicy';
+
+describe('checkQueryPolicy', () => {
+  const policy: QueryPolicy = {
+    allowedParams: ['content_type', 'limit', 'skip', 'include', 'sys.id[*]'],
+    maxLimit: 100,
+    maxSkip: 1000,
+    maxInclude: 3
+  };
+
+  it('accepts allowlisted params, including glob matches', () => {
+    assert.equal(checkQueryPolicy(policy, { content_type: 'product', 'sys.id[in]': 'a,b', limit: '100' }), null);
+  });
+
+  it('rejects params outside the allowlist', () => {
+    assert.equal(checkQueryPolicy(policy, { 'fields.price[gte]': '1' }), 'Query parameter "fields.price[gte]" is not allowed');
+    assert.equal(checkQueryPolicy(policy, { 'sys.id': 'a' }), 'Query parameter "sys.id" is not allowed');
+  });
+
+  it('skips ignored params', () => {
+    assert.equal(checkQueryPolicy(policy, { format: 'flat' }, ['format']), null);
+  });
+
+  it('caps limit, skip and include', () => {
+    assert.match(checkQueryPolicy(policy, { limit: '101' })!, /"limit" must be an integer between 0 and 100/);
+    assert.match(checkQueryPolicy(policy, { skip: '1001' })!, /"skip" must be an integer between 0 and 1000/);
+    assert.match(checkQueryPolicy(policy, { include: '4' })!, /"include" must be an integer between 0 and 3/);
+    assert.equal(checkQueryPolicy(policy, { limit: '0', skip: '1000', include: '3' }), null);
+  });
+});
+
+describe('/entries query policy', () => {
+  const upstreamCalls: Array<Record<string, string>> = [];
+  let server: http.Server;
+  let baseUrl: string;
+
+  const get = (path: string) => fetch(`${baseUrl}${path}`);
+
+  before(async () => {
+    Object.assign(process.env, {
+      CONTENTFUL_SPACE_ID: 'space1',
+      CONTENTFUL_ACCESS_TOKEN: 'token',
+      QUERY_MAX_LIMIT: '50',
+      QUERY_MAX_INCLUDE: '2',
+      LOG_LEVEL: 'error'
+    });
+
+    // The configuration is read on first use, so the modules are loaded after the env is set
+    const { getDefaultUpstream } = await import('../src/services/upstreams');
+    const { contentfulProxy } = await import('../src/routes/contentful');
+    getDefaultUpstream()!.client.defaults.adapter = async config => {
+      upstreamCalls.push({ ...config.params });
+      return {
+        data: { sys: { type: 'Array' }, total: 0, skip: 0, limit: 50, items: [] },
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config
+      };
+    };
+
+    const app = express();
+    app.use(contentfulProxy(new MemoryCacheStore()));
+    server = http.createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('answers 400 for params outside the allowlist', async () => {
+    const response = await get('/entries?content_type=product&fields.price[gte]=1');
+    assert.equal(response.status, 400);
+    assert.match(((await response.json()) as any).message, /"fields.price\[gte\]" is not allowed/);
+  });
+
+  it('answers 400 above the limit and include caps', async () => {
+    assert.equal((await get('/entries?limit=51')).status, 400);
+    assert.equal((await get('/entries?include=3')).status, 400);
+    // resolve=true raises include to the requested depth
+    const response = await get('/entries?resolve=true&depth=3');
+    assert.equal(response.status, 400);
+    assert.match(((await response.json()) as any).message, /after applying resolve/);
+    assert.equal(upstreamCalls.length, 0);
+  });
+
+  it('forwards queries within the policy', async () => {
+    assert.equal((await get('/entries?content_type=product&limit=50&include=2')).status, 200);
+    assert.deepEqual(upstreamCalls, [{ content_type: 'product', include: '2', limit: '50' }]);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_QUERY_PARAMS, MAX_QUERY_VALUE_LENGTH, normalizeQuery } from '../src/services/querySchema';
+
+describe('normalizeQuery', () => {
+  it('sorts params and canonicalizes unordered lists', () => {
+    const { query, error } = normalizeQuery({
+      skip: '10',
+      content_type: 'product',
+      'sys.id': { in: 'b, a,b' },
+      select: 'fields.title,sys.id,fields.title',
+      order: '-sys.createdAt,fields.title'
+    });
+    assert.equal(error, null);
+    assert.deepEqual(Object.entries(query), [
+      ['content_type', 'product'],
+      ['order', '-sys.createdAt,fields.title'],
+      ['select', 'fields.title,sys.id'],
+      ['skip', '10'],
+      ['sys.id[in]', 'a,b']
+    ]);
+  });
+
+  it('gives equivalent queries the same normalization', () => {
+    const a = normalizeQuery({ limit: '5', 'fields.tags': { all: 'x,y' } });
+    const b = normalizeQuery({ 'fields.tags': { all: 'y,x' }, limit: ' 5 ' });
+    assert.deepEqual(a, b);
+  });
+
+  it(`allows at most ${MAX_QUERY_PARAMS} params`, () => {
+    const params = (count: number) => Object.fromEntries(Array.from({ length: count }, (_, i) => [`fields.f${i}`, 'x']));
+    assert.equal(normalizeQuery(params(MAX_QUERY_PARAMS)).error, null);
+    assert.match(normalizeQuery(params(MAX_QUERY_PARAMS + 1)).error!, /At most 20 query parameters/);
+  });
+
+  it(`caps values at ${MAX_QUERY_VALUE_LENGTH} characters`, () => {
+    assert.equal(normalizeQuery({ query: 'a'.repeat(MAX_QUERY_VALUE_LENGTH) }).error, null);
+    assert.match(normalizeQuery({ query: 'a'.repeat(MAX_QUERY_VALUE_LENGTH + 1) }).error!, /longer than 1024 characters/);
+  });
+
+  it('rejects repeated and nested params', () => {
+    assert.match(normalizeQuery({ content_type: ['a', 'b'] }).error!, /given once/);
+    assert.match(normalizeQuery({ 'fields.price': { lte: ['1', '2'] } }).error!, /given once/);
+    assert.match(normalizeQuery({ fields: { price: { lte: '1' } } }).error!, /given once/);
+  });
+
+  it('rejects unknown params, operators and invalid values', () => {
+    assert.match(normalizeQuery({ utm_source: 'x' }).error!, /Unknown query parameter "utm_source"/);
+    assert.match(normalizeQuery({ 'fields.price': { between: '1' } }).error!, /Unknown operator/);
+    assert.match(normalizeQuery({ limit: '1001' }).error!, /Invalid value for query parameter "limit"/);
+    assert.match(normalizeQuery({ 'fields.slug': { exists: 'yes' } }).error!, /Invalid value/);
+  });
+
+  it('passes proxy params through unchecked', () => {
+    const { query, error } = normalizeQuery({ format: 'flat', limit: '1' }, ['format']);
+    assert.equal(error, null);
+    assert.deepEqual(query, { format: 'flat', limit: '1' });
+  });
+});
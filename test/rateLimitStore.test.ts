@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import Redis from 'ioredis';
+import RedisMock from 'ioredis-mock';
+import { Options } from 'express-rate-limit';
+import { DEFAULT_RATE_LIMIT_REDIS_PREFIX, RedisRateLimitStore } from '../src/services/rateLimitStore';
+import { DEFAULT_REDIS_KEY_PREFIX, RedisCacheStore } from '../src/services/redisCacheStore';
+
+const createStore = (client: Redis, windowMs: number = 60 * 1000) => {
+  const store = new RedisRateLimitStore(client, `${DEFAULT_RATE_LIMIT_REDIS_PREFIX}api:`);
+  store.init({ windowMs } as Options);
+  return store;
+};
+
+describe('redis rate limit store', () => {
+  it('counts hits within a window', async () => {
+    const store = createStore(new RedisMock() as unknown as Redis);
+    assert.equal((await store.increment('ip:1.1.1.1')).totalHits, 1);
+    const second = await store.increment('ip:1.1.1.1');
+    assert.equal(second.totalHits, 2);
+    assert.ok(second.resetTime!.getTime() > Date.now() + 55 * 1000);
+
+    await store.decrement('ip:1.1.1.1');
+    assert.equal((await store.get('ip:1.1.1.1'))?.totalHits, 1);
+    await store.resetKey('ip:1.1.1.1');
+    assert.equal(await store.get('ip:1.1.1.1'), undefined);
+  });
+
+  it('starts a new window once the old one expires', async () => {
+    const store = createStore(new RedisMock() as unknown as Redis, 100);
+    await store.increment('client:next');
+    await store.increment('client:next');
+    await new Promise(resolve => setTimeout(resolve, 150));
+    assert.equal((await store.increment('client:next')).totalHits, 1);
+  });
+
+  it('keeps its counters out of the cache namespace', async () => {
+    const client = new RedisMock() as unknown as Redis;
+    const cache = new RedisCacheStore({ client, prefix: DEFAULT_REDIS_KEY_PREFIX });
+    const store = createStore(client);
+    await cache.set('entries:a', 1);
+    await store.increment('ip:3.3.3.3');
+
+    assert.deepEqual(await cache.keys(), ['entries:a']);
+    await cache.flush();
+    assert.equal((await store.get('ip:3.3.3.3'))?.totalHits, 1);
+  });
+});
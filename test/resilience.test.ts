@@ -0,0 +1,211 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { MemoryCacheStore } from '../src/services/memoryCacheStore';
+
+type Reply = { status: number; headers?: Record<string, string> };
+
+// Stub adapter answering with the queued replies, then with the last one; non-2xx
+// replies are rejected the way axios' own adapters do
+const stubAdapter = (client: AxiosInstance, replies: Reply[]) => {
+  const calls: InternalAxiosRequestConfig[] = [];
+  client.defaults.adapter = async config => {
+    calls.push(config);
+    const reply = replies.length > 1 ? replies.shift()! : replies[0];
+    const response = { data: {}, status: reply.status, statusText: '', headers: reply.headers || {}, config };
+    if (reply.status >= 400) {
+      throw new AxiosError(`Request failed with status code ${reply.status}`, 'ERR_BAD_RESPONSE', config, null, response);
+    }
+    return response;
+  };
+  return calls;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+let resilience: typeof import('../src/services/resilience');
+let clientCount = 0;
+
+// A client with its own circuit breaker
+const createClient = () => {
+  const client = axios.create();
+  const name = `test-${++clientCount}`;
+  resilience.applyResilience(client, name);
+  const status = () => resilience.getCircuitBreakerStatus().find(breaker => breaker.name === name)!;
+  return { client, status };
+};
+
+const statusOf = (promise: Promise<unknown>) => promise.then(() => 200, (error: any) => error.response?.status ?? error.constructor.name);
+
+before(async () => {
+  Object.assign(process.env, {
+    CONTENTFUL_SPACE_ID: 'space1',
+    CONTENTFUL_ACCESS_TOKEN: 'token',
+    UPSTREAM_MAX_RETRIES: '2',
+    UPSTREAM_RETRY_BASE_MS: '1',
+    UPSTREAM_MAX_RETRY_WAIT_MS: '1000',
+    UPSTREAM_BREAKER_THRESHOLD: '2',
+    UPSTREAM_BREAKER_COOLDOWN: '0.1',
+    LOG_LEVEL: 'error'
+  });
+  // The configuration is read on first use, so the module is loaded after the env is set
+  resilience = await import('../src/services/resilience');
+});
+
+describe('upstream retries', () => {
+  it('waits for Retry-After before retrying', async () => {
+    const { client } = createClient();
+    const calls = stubAdapter(client, [{ status: 429, headers: { 'retry-after': '0.1' } }, { status: 200 }]);
+    const started = Date.now();
+    assert.equal((await client.get('/entries')).status, 200);
+    assert.ok(Date.now() - started >= 100);
+    assert.equal(calls.length, 2);
+  });
+
+  it('prefers X-Contentful-RateLimit-Reset over Retry-After', async () => {
+    const { client } = createClient();
+    stubAdapter(client, [{ status: 429, headers: { 'x-contentful-ratelimit-reset': '0.15', 'retry-after': '0' } }, { status: 200 }]);
+    const started = Date.now();
+    await client.get('/entries');
+    assert.ok(Date.now() - started >= 150);
+  });
+
+  it('passes on rate limits that reset later than the longest wait', async () => {
+    const { client } = createClient();
+    const calls = stubAdapter(client, [{ status: 429, headers: { 'x-contentful-ratelimit-reset': '60' } }]);
+    assert.equal(await statusOf(client.get('/entries')), 429);
+    assert.equal(calls.length, 1);
+  });
+
+  it('retries GETs on 5xx up to the retry limit', async () => {
+    const { client } = createClient();
+    const calls = stubAdapter(client, [{ status: 503 }]);
+    assert.equal(await statusOf(client.get('/entries')), 503);
+    assert.equal(calls.length, 3);
+  });
+
+  it('never retries other methods or 4xx answers', async () => {
+    const { client } = createClient();
+    const calls = stubAdapter(client, [{ status: 503 }]);
+    assert.equal(await statusOf(client.post('/graphql', {})), 503);
+    assert.equal(calls.length, 1);
+
+    stubAdapter(client, [{ status: 404 }]);
+    assert.equal(await statusOf(client.get('/entries/missing')), 404);
+  });
+});
+
+describe('circuit breaker', () => {
+  it('opens after consecutive failures and fails fast', async () => {
+    const { client, status } = createClient();
+    const calls = stubAdapter(client, [{ status: 503 }]);
+    await statusOf(client.get('/a'));
+    assert.equal(status().state, 'closed');
+    await statusOf(client.get('/b'));
+    assert.equal(status().state, 'open');
+
+    const callsBefore = calls.length;
+    assert.equal(await statusOf(client.get('/c')), 'CircuitOpenError');
+    assert.equal(calls.length, callsBefore);
+  });
+
+  it('lets one trial through after the cooldown and closes on success', async () => {
+    const { client, status } = createClient();
+    const calls = stubAdapter(client, [{ status: 503 }]);
+    await statusOf(client.get('/a'));
+    await statusOf(client.get('/b'));
+    await sleep(120);
+
+    let releaseTrial!: () => void;
+    client.defaults.adapter = async config => {
+      calls.push(config);
+      await new Promise<void>(resolve => {
+        releaseTrial = resolve;
+      });
+      return { data: {}, status: 200, statusText: 'OK', headers: {}, config };
+    };
+    const trial = client.get('/trial');
+    await sleep(10);
+    assert.equal(status().state, 'half-open');
+    assert.equal(await statusOf(client.get('/during-trial')), 'CircuitOpenError');
+
+    releaseTrial();
+    assert.equal((await trial).status, 200);
+    assert.equal(status().state, 'closed');
+    assert.equal(status().consecutiveFailures, 0);
+  });
+
+  it('opens again when the trial fails', async () => {
+    const { client, status } = createClient();
+    stubAdapter(client, [{ status: 503 }]);
+    await statusOf(client.get('/a'));
+    await statusOf(client.get('/b'));
+    await sleep(120);
+
+    assert.equal(await statusOf(client.get('/trial')), 503);
+    assert.equal(status().state, 'open');
+  });
+
+  it('does not count 4xx answers as failures', async () => {
+    const { client, status } = createClient();
+    stubAdapter(client, [{ status: 503 }, { status: 503 }, { status: 503 }, { status: 404 }]);
+    await statusOf(client.get('/a'));
+    assert.equal(status().consecutiveFailures, 1);
+    await statusOf(client.get('/missing'));
+    assert.equal(status().consecutiveFailures, 0);
+    assert.equal(status().state, 'closed');
+  });
+});
+
+describe('serving while the breaker is open', () => {
+  const cache = new MemoryCacheStore();
+  let server: http.Server;
+  let baseUrl: string;
+  let upstreamCalls: InternalAxiosRequestConfig[];
+
+  before(async () => {
+    const { getDefaultUpstream } = await import('../src/services/upstreams');
+    const { contentfulProxy } = await import('../src/routes/contentful');
+    const { computeValidators } = await import('../src/services/httpValidators');
+
+    upstreamCalls = stubAdapter(getDefaultUpstream()!.client, [{ status: 503 }]);
+
+    // A copy whose fresh window has passed
+    const data = { sys: { type: 'Array' }, total: 0, skip: 0, limit: 100, items: [] };
+    await cache.set('contentful:entries:', { data, storedAt: 0, freshUntil: 0, validators: computeValidators(data) });
+
+    const app = express();
+    app.use(contentfulProxy(cache));
+    server = http.createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    // Two failed requests open the default upstream's breaker
+    await fetch(`${baseUrl}/tags`);
+    await fetch(`${baseUrl}/content_types`);
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('serves the stale copy and keeps it', async () => {
+    const callsBefore = upstreamCalls.length;
+    const response = await fetch(`${baseUrl}/entries`);
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('x-cache'), 'STALE');
+
+    await sleep(20);
+    assert.equal(upstreamCalls.length, callsBefore);
+    assert.equal(await cache.has('contentful:entries:'), true);
+  });
+
+  it('answers uncached requests with 503 and Retry-After', async () => {
+    const response = await fetch(`${baseUrl}/locales`);
+    assert.equal(response.status, 503);
+    assert.ok(Number(response.headers.get('retry-after')) >= 1);
+  });
+});
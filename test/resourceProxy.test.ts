@@ -0,0 +1,85 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { MemoryCacheStore } from '../src/services/memoryCacheStore';
+
+const cache = new MemoryCacheStore();
+const upstreamCalls: Array<Record<string, string>> = [];
+let server: http.Server;
+let baseUrl: string;
+
+const get = (path: string) => fetch(`${baseUrl}${path}`);
+
+describe('resource proxy cache keys', () => {
+  before(async () => {
+    Object.assign(process.env, {
+      CONTENTFUL_SPACE_ID: 'space1',
+      CONTENTFUL_ACCESS_TOKEN: 'token',
+      CONTENTFUL_LOCALES: 'en-US,de-DE',
+      LOG_LEVEL: 'error'
+    });
+
+    // The configuration is read on first use, so the modules are loaded after the env is set
+    const { getDefaultUpstream } = await import('../src/services/upstreams');
+    const { contentfulProxy } = await import('../src/routes/contentful');
+    getDefaultUpstream()!.client.defaults.adapter = async config => {
+      upstreamCalls.push({ ...config.params });
+      return {
+        data: { sys: { type: 'Array' }, total: 0, skip: 0, limit: 100, items: [] },
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config
+      };
+    };
+
+    const app = express();
+    app.use(contentfulProxy(cache));
+    server = http.createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(async () => {
+    upstreamCalls.length = 0;
+    await cache.flush();
+  });
+
+  it('ignores params of options that are not requested', async () => {
+    for (const path of ['/entries', '/entries?selectLocale=de-DE', '/entries?resolve=false&depth=7', '/entries?format=raw', '/entries?richText=json']) {
+      assert.equal((await get(path)).status, 200, path);
+    }
+    assert.equal(upstreamCalls.length, 1);
+    assert.deepEqual(await cache.keys(), ['contentful:entries:']);
+  });
+
+  it('keys requested options on their canonical values', async () => {
+    await get('/entries?resolve=true');
+    await get('/entries?resolve=1&depth=02');
+    await get('/entries?format=flat&selectLocale=de-DE');
+    await get('/entries?format=flat');
+    assert.deepEqual((await cache.keys()).sort(), [
+      'contentful:entries:depth=2&resolve=true',
+      'contentful:entries:format=flat'
+    ]);
+  });
+
+  it('keeps locale selections of locale=* responses apart', async () => {
+    await get('/entries?locale=*&format=flat');
+    await get('/entries?locale=*&format=flat&fallbackLocale=en-US');
+    await get('/entries?locale=*&format=flat&selectLocale=de-DE');
+    assert.equal(upstreamCalls.length, 2);
+  });
+
+  it('rejects locales the space does not have', async () => {
+    const response = await get('/entries?format=flat&selectLocale=xx-YYYYYYYY');
+    assert.equal(response.status, 400);
+    assert.equal(upstreamCalls.length, 0);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { attributeUrl, renderNode, RenderContext } from '../src/services/richTextHtml';
+
+const context: RenderContext = { lookup: new Map(), localized: false };
+
+const hyperlink = (uri: string) => ({
+  nodeType: 'paragraph',
+  content: [{ nodeType: 'hyperlink', data: { uri }, content: [{ nodeType: 'text', value: 'click', marks: [] }] }]
+});
+
+describe('attributeUrl', () => {
+  it('keeps http(s), mailto, tel and relative URLs', () => {
+    assert.equal(attributeUrl('https://example.com/a?b=1&c=2'), 'https://example.com/a?b=1&amp;c=2');
+    assert.equal(attributeUrl('HTTP://example.com'), 'HTTP://example.com');
+    assert.equal(attributeUrl('mailto:info@example.com'), 'mailto:info@example.com');
+    assert.equal(attributeUrl('tel:+49301234'), 'tel:+49301234');
+    assert.equal(attributeUrl('/products/synth'), '/products/synth');
+    assert.equal(attributeUrl('products/synth'), 'products/synth');
+    assert.equal(attributeUrl('#section'), '#section');
+    assert.equal(attributeUrl('//cdn.example.com/a.png'), '//cdn.example.com/a.png');
+  });
+
+  it('rejects other schemes', () => {
+    for (const url of ['javascript:alert(1)', 'JavaScript:alert(1)', ' javascript:alert(1)', 'data:text/html,<script>', 'vbscript:msgbox(1)']) {
+      assert.equal(attributeUrl(url), null, url);
+    }
+  });
+
+  it('rejects schemes hidden by whitespace, control characters and entities', () => {
+    const payloads = [
+      'java\tscript:alert(1)',
+      'java\nscript:alert(1)',
+      'java\rscript:alert(1)',
+      '\u0001javascript:alert(1)',
+      '\u0000 javascript:alert(1)',
+      'jav\u007fascript:alert(1)',
+      'javascript&colon;alert(1)',
+      '&#106;avascript:alert(1)',
+      '&#x6A;avascript:alert(1)',
+      'java&Tab;script:alert(1)',
+      'java&#9;script:alert(1)'
+    ];
+    for (const url of payloads) {
+      assert.equal(attributeUrl(url), null, JSON.stringify(url));
+    }
+  });
+
+  it('drops control characters from the URL it returns', () => {
+    assert.equal(attributeUrl('https://exa\tmple.com/\u0001a'), 'https://example.com/a');
+  });
+
+  it('ignores non-strings', () => {
+    assert.equal(attributeUrl(undefined), null);
+    assert.equal(attributeUrl({ url: 'https://example.com' }), null);
+  });
+});
+
+describe('renderNode', () => {
+  it('renders safe hyperlinks as links', () => {
+    assert.equal(renderNode(hyperlink('https://example.com'), context), '<p><a href="https://example.com">click</a></p>');
+  });
+
+  it('renders unsafe hyperlinks as plain text', () => {
+    for (const uri of ['java\tscript:alert(1)', 'java\nscript:alert(1)', '\u0001javascript:alert(1)']) {
+      const html = renderNode(hyperlink(uri), context);
+      assert.equal(html, '<p>click</p>', JSON.stringify(uri));
+      assert.ok(!html.includes('script'));
+    }
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryCacheStore } from '../src/services/memoryCacheStore';
+import { revalidateInBackground, writeCache } from '../src/services/staleCache';
+
+// Rejects like axios does for an upstream response with the given status
+const failWith = (status?: number) => async () => {
+  const error: any = new Error(status ? `Request failed with status code ${status}` : 'socket hang up');
+  if (status) {
+    error.response = { status, data: {} };
+  }
+  throw error;
+};
+
+// Background revalidation isn't awaited; give its promise chain time to settle
+const settle = () => new Promise(resolve => setTimeout(resolve, 20));
+
+before(() => {
+  process.env.CONTENTFUL_SPACE_ID = 'space1';
+  process.env.CONTENTFUL_ACCESS_TOKEN = 'token';
+  process.env.LOG_LEVEL = 'error';
+});
+
+describe('revalidateInBackground', () => {
+  it('replaces the stale copy on success', async () => {
+    const cache = new MemoryCacheStore();
+    await writeCache(cache, 'entries', { version: 1 });
+    revalidateInBackground(cache, 'entries', async () => ({ version: 2 }));
+    await settle();
+    assert.deepEqual((await cache.get('entries')).data, { version: 2 });
+  });
+
+  it('evicts the key when the item is gone', async () => {
+    const cache = new MemoryCacheStore();
+    await writeCache(cache, 'entries', { version: 1 });
+    revalidateInBackground(cache, 'entries', failWith(404));
+    await settle();
+    assert.equal(await cache.has('entries'), false);
+  });
+
+  for (const [reason, status] of [['a network error', undefined], ['a 5xx response', 503], ['rate limiting', 429]] as const) {
+    it(`keeps the stale copy on ${reason}`, async () => {
+      const cache = new MemoryCacheStore();
+      await writeCache(cache, 'entries', { version: 1 });
+      revalidateInBackground(cache, 'entries', failWith(status));
+      await settle();
+      assert.deepEqual((await cache.get('entries')).data, { version: 1 });
+    });
+  }
+});
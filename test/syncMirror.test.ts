@@ -0,0 +1,82 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ContentfulUpstream } from '../src/services/upstreams';
+import { SyncMirror } from '../src/services/syncMirror';
+
+const mirrorDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-mirror-test-'));
+const entry = (id: string) => ({ sys: { id, type: 'Entry', updatedAt: '2024-01-01T00:00:00Z' }, fields: {} });
+
+let upstream: ContentfulUpstream;
+// Items of the next /sync response, and the sync tokens requested
+let syncItems: any[] = [];
+const syncParams: Array<Record<string, string>> = [];
+// Holds /sync responses back while set
+let syncGate: Promise<void> | null = null;
+
+describe('sync mirror', () => {
+  before(async () => {
+    Object.assign(process.env, {
+      CONTENTFUL_SPACE_ID: 'space1',
+      CONTENTFUL_ACCESS_TOKEN: 'token',
+      LOG_LEVEL: 'error'
+    });
+
+    // The configuration is read on first use, so the module is loaded after the env is set
+    const { getDefaultUpstream } = await import('../src/services/upstreams');
+    upstream = getDefaultUpstream()!;
+    upstream.client.defaults.adapter = async config => {
+      if (config.url === '/locales') {
+        return { data: { items: [{ code: 'en-US', default: true }] }, status: 200, statusText: 'OK', headers: {}, config };
+      }
+      syncParams.push({ ...config.params });
+      const items = syncItems;
+      await syncGate;
+      const data = { items, nextSyncUrl: `https://cdn.contentful.com/spaces/space1/sync?sync_token=t${syncParams.length}` };
+      return { data, status: 200, statusText: 'OK', headers: {}, config };
+    };
+  });
+
+  after(() => {
+    fs.rmSync(mirrorDir, { recursive: true, force: true });
+  });
+
+  it('syncs again when requested during a sync', async () => {
+    const mirror = new SyncMirror({ upstream, directory: mirrorDir, interval: 3600 });
+    syncItems = [entry('e1')];
+    let release!: () => void;
+    syncGate = new Promise(resolve => {
+      release = resolve;
+    });
+
+    const first = mirror.requestSync();
+    await new Promise(resolve => setImmediate(resolve));
+    assert.equal(syncParams.length, 1);
+
+    // A webhook for e2 arrives after the running sync read its page
+    syncItems = [entry('e2')];
+    const second = mirror.requestSync();
+    const third = mirror.requestSync();
+    assert.equal(second, third);
+
+    release();
+    syncGate = null;
+    await first;
+    await second;
+
+    assert.deepEqual(syncParams, [{ initial: 'true' }, { sync_token: 't1' }]);
+    assert.deepEqual(mirror.getEntries().map(item => item.sys.id), ['e1', 'e2']);
+    assert.equal(mirror.getStatus().syncing, false);
+  });
+
+  it('runs a single sync when nothing else was requested', async () => {
+    const mirror = new SyncMirror({ upstream, directory: mirrorDir, interval: 3600 });
+    syncParams.length = 0;
+    syncItems = [];
+    await mirror.requestSync();
+    await new Promise(resolve => setImmediate(resolve));
+    assert.equal(syncParams.length, 1);
+  });
+});